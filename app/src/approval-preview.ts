@@ -0,0 +1,151 @@
+/**
+ * Builds the body of a Discord approval request.
+ *
+ * File-mutating tools get a unified diff against the file on disk: short diffs
+ * inline in a ```diff block, long ones as a .diff attachment. Bash shows the full
+ * command and working directory. The raw tool input is always attached.
+ */
+
+import { createTwoFilesPatch } from 'diff';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Longest diff or command shown inline; anything longer goes into an attachment
+const MAX_INLINE_LENGTH = 1200;
+
+export interface PreviewAttachment {
+  name: string;
+  content: string;
+}
+
+export interface ApprovalPreview {
+  body: string;
+  attachments: PreviewAttachment[];
+}
+
+function formatJson(input: unknown, maxLength: number): string {
+  const str = typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+  return str.length > maxLength ? str.substring(0, maxLength) + '...' : str;
+}
+
+function readCurrentFile(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined; // New file or unreadable
+  }
+}
+
+// Apply one Edit-style replacement; returns undefined if old_string is not in the content
+function applyEdit(content: string, oldString: string, newString: string, replaceAll: boolean): string | undefined {
+  if (!content.includes(oldString)) return undefined;
+  return replaceAll ? content.split(oldString).join(newString) : content.replace(oldString, () => newString);
+}
+
+// Compute the file content before and after the tool runs. When an edit does not
+// apply, fall back to diffing that edit's own strings so the change is still visible.
+function proposeContent(
+  toolName: string,
+  input: any,
+  current: string | undefined
+): { before: string; after: string; warning?: string } | undefined {
+  if (toolName === 'Write' && typeof input.content === 'string') {
+    return { before: current ?? '', after: input.content };
+  }
+
+  const edits: any[] = toolName === 'MultiEdit' ? input.edits : toolName === 'Edit' ? [input] : [];
+  if (!Array.isArray(edits) || edits.length === 0) return undefined;
+
+  let after = current ?? '';
+  for (const edit of edits) {
+    if (typeof edit?.old_string !== 'string' || typeof edit?.new_string !== 'string') return undefined;
+    const next = applyEdit(after, edit.old_string, edit.new_string, !!edit.replace_all);
+    if (next === undefined) {
+      return {
+        before: edit.old_string,
+        after: edit.new_string,
+        warning: '⚠️ `old_string` was not found in the current file; the edit will likely fail.',
+      };
+    }
+    after = next;
+  }
+  return { before: current ?? '', after };
+}
+
+function buildDiffPreview(toolName: string, input: any, cwd: string): ApprovalPreview | undefined {
+  if (typeof input?.file_path !== 'string') return undefined;
+
+  const filePath = path.resolve(cwd, input.file_path);
+  const current = readCurrentFile(filePath);
+  const proposed = proposeContent(toolName, input, current);
+  if (!proposed) return undefined;
+
+  const displayPath = path.relative(cwd, filePath).startsWith('..') ? filePath : path.relative(cwd, filePath);
+  const patch = createTwoFilesPatch(
+    current === undefined ? '/dev/null' : `a/${displayPath}`,
+    `b/${displayPath}`,
+    proposed.before,
+    proposed.after,
+    undefined,
+    undefined,
+    { context: 3 }
+  ).replace(/^=+\n/, '').trimEnd();
+
+  const patchLines = patch.split('\n');
+  const added = patchLines.filter(line => line.startsWith('+') && !line.startsWith('+++')).length;
+  const removed = patchLines.filter(line => line.startsWith('-') && !line.startsWith('---')).length;
+
+  let body = `**File:** \`${filePath}\`${current === undefined ? ' (new file)' : ''} — +${added} −${removed} lines\n`;
+  if (proposed.warning) {
+    body += `${proposed.warning}\n`;
+  }
+
+  const attachments: PreviewAttachment[] = [];
+  if (patch.length <= MAX_INLINE_LENGTH) {
+    body += `\`\`\`diff\n${patch}\n\`\`\``;
+  } else {
+    const diffName = `${path.basename(filePath)}.diff`;
+    body += `Diff is too long to show inline, see \`${diffName}\`.`;
+    attachments.push({ name: diffName, content: patch });
+  }
+  return { body, attachments };
+}
+
+function buildBashPreview(input: any, cwd: string): ApprovalPreview | undefined {
+  if (typeof input?.command !== 'string') return undefined;
+
+  let body = `**Working directory:** \`${cwd}\`\n`;
+  if (typeof input.description === 'string' && input.description) {
+    body += `**Description:** ${input.description}\n`;
+  }
+
+  const attachments: PreviewAttachment[] = [];
+  if (input.command.length <= MAX_INLINE_LENGTH) {
+    body += `\`\`\`bash\n${input.command}\n\`\`\``;
+  } else {
+    body += `\`\`\`bash\n${input.command.substring(0, MAX_INLINE_LENGTH)}\n...\n\`\`\`\nFull command in \`command.sh\`.`;
+    attachments.push({ name: 'command.sh', content: input.command });
+  }
+  return { body, attachments };
+}
+
+export function buildApprovalPreview(toolName: string, input: unknown, cwd: string): ApprovalPreview {
+  let preview: ApprovalPreview | undefined;
+  try {
+    if (toolName === 'Bash') {
+      preview = buildBashPreview(input, cwd);
+    } else if (toolName === 'Edit' || toolName === 'Write' || toolName === 'MultiEdit') {
+      preview = buildDiffPreview(toolName, input, cwd);
+    }
+  } catch (error) {
+    console.error(`[Approval] Failed to build preview for ${toolName}:`, error);
+  }
+
+  if (!preview) {
+    preview = { body: `**Input:**\n\`\`\`\n${formatJson(input, 500)}\n\`\`\``, attachments: [] };
+  }
+
+  // The full raw input is always available
+  preview.attachments.push({ name: 'input.json', content: JSON.stringify(input, null, 2) });
+  return preview;
+}
@@ -0,0 +1,126 @@
+/**
+ * Session approval rules.
+ *
+ * A rule is either a bare tool name, which matches every call of that tool,
+ * or a tool name with an argument pattern:
+ *   Bash                     - any Bash command
+ *   Bash(git status:*)       - Bash commands that start with "git status"
+ *   Bash(npm test)           - exactly "npm test"
+ *   Edit(/repo/src/**)       - Edit/Write/MultiEdit on files matching the glob
+ *   WebFetch(domain:x.com)   - fetches from x.com or its subdomains
+ */
+
+import * as path from 'path';
+
+// Tools whose input carries a file path that rules can match with a glob
+const FILE_TOOLS = ['Edit', 'Write', 'MultiEdit', 'NotebookEdit'];
+
+// A command containing any of these could chain or redirect past an approved prefix
+const SHELL_CONTROL = /[;&|`<>\n\r]|\$\(/;
+
+export interface RuleSuggestions {
+  narrow?: string;   // Rule matching this call's arguments (undefined if the tool has no pattern support)
+  broad: string;     // Rule matching every call of the tool
+}
+
+export function parseRule(rule: string): { toolName: string; pattern?: string } {
+  const match = rule.trim().match(/^([^()]+?)(?:\((.*)\))?$/s);
+  if (!match) {
+    return { toolName: rule.trim() };
+  }
+  return { toolName: match[1].trim(), pattern: match[2] };
+}
+
+function getFilePath(input: any): string | undefined {
+  const value = input?.file_path ?? input?.notebook_path;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getCommand(input: any): string | undefined {
+  return typeof input?.command === 'string' ? input.command.trim() : undefined;
+}
+
+// Translate a path glob into a RegExp: ** spans directories, * and ? stay within one segment
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Propose a narrow rule for this call next to the whole-tool rule
+export function suggestRules(toolName: string, input: unknown): RuleSuggestions {
+  const suggestions: RuleSuggestions = { broad: toolName };
+
+  if (toolName === 'Bash') {
+    const command = getCommand(input);
+    if (command && !SHELL_CONTROL.test(command)) {
+      const words = command.split(/\s+/);
+      // Keep a subcommand-like second word ("git push", "npm test"), but not flags or paths
+      const prefix = words.length > 1 && /^[a-zA-Z][\w-]*$/.test(words[1])
+        ? `${words[0]} ${words[1]}`
+        : words[0];
+      suggestions.narrow = `Bash(${prefix}:*)`;
+    }
+  } else if (FILE_TOOLS.includes(toolName)) {
+    const filePath = getFilePath(input);
+    if (filePath) {
+      suggestions.narrow = `${toolName}(${path.dirname(path.resolve(filePath))}/**)`;
+    }
+  } else if (toolName === 'WebFetch') {
+    try {
+      const url = new URL((input as any)?.url);
+      suggestions.narrow = `WebFetch(domain:${url.hostname})`;
+    } catch {
+      // No usable URL, only the broad rule applies
+    }
+  }
+
+  return suggestions;
+}
+
+export function ruleMatches(rule: string, toolName: string, input: unknown): boolean {
+  const parsed = parseRule(rule);
+  if (parsed.toolName !== toolName) return false;
+  if (parsed.pattern === undefined) return true;
+
+  const pattern = parsed.pattern;
+
+  if (toolName === 'Bash') {
+    const command = getCommand(input);
+    if (!command || SHELL_CONTROL.test(command)) return false;
+    if (pattern.endsWith(':*')) {
+      const prefix = pattern.slice(0, -2).trim();
+      return command === prefix || command.startsWith(prefix + ' ');
+    }
+    return command === pattern.trim();
+  }
+
+  if (FILE_TOOLS.includes(toolName)) {
+    const filePath = getFilePath(input);
+    return !!filePath && globToRegExp(pattern).test(path.resolve(filePath));
+  }
+
+  if (toolName === 'WebFetch' && pattern.startsWith('domain:')) {
+    const domain = pattern.substring(7).toLowerCase();
+    try {
+      const hostname = new URL((input as any)?.url).hostname.toLowerCase();
+      return hostname === domain || hostname.endsWith('.' + domain);
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
@@ -4,33 +4,46 @@
  * Discord-based permission approval MCP server for Claude Code.
  * 
  * When Claude needs permission to run a tool, it calls this MCP server.
- * The server posts to Discord with 3 options:
- *   1️⃣ Yes (allow once)
- *   2️⃣ Yes, allow for this session (auto-approve same tool type going forward)
- *   3️⃣ No (deny)
+ * The bot posts the request to Discord with buttons:
+ *   Allow once
+ *   Allow <rule>    - a rule matching these arguments for this session (e.g. Bash(git status:*))
+ *   Allow all <tool> - every call of this tool for this session
+ *   Deny
+ *   Deny with reason - the reason is returned to Claude so it can change its approach
+ *
+ * Requests left unanswered for APPROVAL_TIMEOUT_MS are denied.
+ *
+ * Session rules are kept by the Discord bot (this process only lives for one turn),
+ * so the bot auto-approves matching requests and can revoke rules at any time.
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import * as http from 'http';
+import { suggestRules } from './approval-rules.js';
+import { buildApprovalPreview } from './approval-preview.js';
+import { buildAuthHeaders, getRequestChannel, verifyRequest } from './orchestrator-auth.js';
 
 // Configuration from environment
-const ORCHESTRATOR_URL = process.env.ORCHESTRATOR_URL || 'http://localhost:3000';
+const ORCHESTRATOR_URL = process.env.ORCHESTRATOR_URL || 'http://127.0.0.1:3000';
 const CHANNEL_ID = process.env.CHANNEL_ID || '';
+const ORCHESTRATOR_SECRET = process.env.ORCHESTRATOR_SECRET || '';
 const APPROVAL_TIMEOUT_MS = parseInt(process.env.APPROVAL_TIMEOUT_MS || '300000', 10);
 
-if (!CHANNEL_ID) {
-  console.error('CHANNEL_ID environment variable is required');
+if (!CHANNEL_ID || !ORCHESTRATOR_SECRET) {
+  console.error('CHANNEL_ID and ORCHESTRATOR_SECRET environment variables are required');
   process.exit(1);
 }
 
-// Session-level allowlist: tool names that have been approved for the session
-const sessionAllowlist: Set<string> = new Set();
-
 // Pending approvals waiting for user response
+interface ApprovalResponse {
+  response: 'allow' | 'allow_session' | 'deny';
+  message?: string;  // Feedback from "Deny with reason"
+}
+
 interface PendingApproval {
-  resolve: (response: 'allow' | 'allow_session' | 'deny') => void;
+  resolve: (response: ApprovalResponse) => void;
   messageId?: string;
   timestamp: number;
 }
@@ -40,23 +53,43 @@ const pendingApprovals = new Map<string, PendingApproval>();
 // HTTP server to receive approval responses from Discord bot
 let approvalServer: http.Server | null = null;
 
+// Only the bot holds this channel's secret, so only it can answer requests
+function isAuthorized(req: http.IncomingMessage, body: string): boolean {
+  return getRequestChannel(req.headers) === CHANNEL_ID &&
+    verifyRequest(ORCHESTRATOR_SECRET, req.method || '', req.url || '', req.headers, body);
+}
+
 function startApprovalServer(port: number): void {
   approvalServer = http.createServer((req, res) => {
-    if (req.method === 'POST' && req.url === '/approval-response') {
-      let body = '';
-      req.on('data', chunk => body += chunk);
-      req.on('end', () => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (!isAuthorized(req, body)) {
+        console.error(`[Approval] Rejected unsigned request ${req.method} ${req.url}`);
+        res.writeHead(401);
+        res.end('Unauthorized');
+        return;
+      }
+
+      // Lets the bot check which requests are still open after it restarts
+      if (req.method === 'GET' && req.url === '/pending') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ requestIds: Array.from(pendingApprovals.keys()) }));
+        return;
+      }
+
+      if (req.method === 'POST' && req.url === '/approval-response') {
         try {
           const data = JSON.parse(body);
-          const { requestId, response } = data;
+          const { requestId, rule, message } = data;
           // Support legacy { approved: true/false } format
           const resolvedResponse = data.response || (data.approved ? 'allow' : 'deny');
           
           const pending = pendingApprovals.get(requestId);
           if (pending) {
-            pending.resolve(resolvedResponse);
+            pending.resolve({ response: resolvedResponse, message });
             pendingApprovals.delete(requestId);
-            console.error(`[Approval] Received ${resolvedResponse} for ${requestId}`);
+            console.error(`[Approval] Received ${resolvedResponse} for ${requestId}${rule ? ` (rule: ${rule})` : ''}`);
           }
           
           res.writeHead(200);
@@ -65,12 +98,12 @@ function startApprovalServer(port: number): void {
           res.writeHead(400);
           res.end('Invalid JSON');
         }
-      });
-      return;
-    }
-    
-    res.writeHead(404);
-    res.end('Not found');
+        return;
+      }
+
+      res.writeHead(404);
+      res.end('Not found');
+    });
   });
   
   approvalServer.listen(port, '127.0.0.1', () => {
@@ -91,6 +124,7 @@ async function sendToOrchestrator(data: any): Promise<any> {
       headers: {
         'Content-Type': 'application/json',
         'Content-Length': Buffer.byteLength(postData),
+        ...buildAuthHeaders(ORCHESTRATOR_SECRET, CHANNEL_ID, 'POST', '/', postData),
       },
     };
 
@@ -120,14 +154,6 @@ function generateRequestId(): string {
   return Math.random().toString(36).substring(2, 10);
 }
 
-function formatToolInput(input: unknown): string {
-  if (typeof input === 'string') {
-    return input.length > 500 ? input.substring(0, 500) + '...' : input;
-  }
-  const str = JSON.stringify(input, null, 2);
-  return str.length > 500 ? str.substring(0, 500) + '...' : str;
-}
-
 // Create MCP server
 const server = new McpServer({
   name: 'discord-approval',
@@ -143,34 +169,24 @@ server.tool(
     input: z.unknown().describe('Parameters being passed to the tool'),
   },
   async ({ tool_name, input }) => {
-    // Check session allowlist first
-    if (sessionAllowlist.has(tool_name)) {
-      console.error(`[Approval] Auto-approved ${tool_name} (session allowlist)`);
-      return {
-        content: [{
-          type: 'text' as const,
-          text: JSON.stringify({ behavior: 'allow', updatedInput: input }),
-        }],
-      };
-    }
-
     const requestId = generateRequestId();
     console.error(`[Approval] Request ${requestId}: ${tool_name}`);
     
-    const formattedInput = formatToolInput(input);
+    const rules = suggestRules(tool_name, input);
+    // Claude starts MCP servers in its own working directory
+    const preview = buildApprovalPreview(tool_name, input, process.cwd());
     const message = `⚠️ **Permission Request** (ID: \`${requestId}\`)\n\n` +
       `**Tool:** \`${tool_name}\`\n` +
-      `**Input:**\n\`\`\`\n${formattedInput}\n\`\`\`\n\n` +
-      `1️⃣ **Yes** (allow once)\n` +
-      `2️⃣ **Yes, allow for this session**\n` +
-      `3️⃣ **No** (deny)`;
+      preview.body;
     
     const approvalPort = parseInt(process.env.APPROVAL_PORT || '3001', 10);
+    // Lets the bot show a countdown and mark the message expired when we auto-deny
+    const expiresAt = Date.now() + APPROVAL_TIMEOUT_MS;
     
     try {
       // IMPORTANT: Register the pending approval BEFORE sending to orchestrator
       // to avoid race condition where bot auto-approves before the promise is set up
-      const responsePromise = new Promise<'allow' | 'allow_session' | 'deny'>((resolve) => {
+      const responsePromise = new Promise<ApprovalResponse>((resolve) => {
         pendingApprovals.set(requestId, {
           resolve,
           timestamp: Date.now(),
@@ -180,7 +196,7 @@ server.tool(
           if (pendingApprovals.has(requestId)) {
             pendingApprovals.delete(requestId);
             console.error(`[Approval] Request ${requestId} timed out`);
-            resolve('deny');
+            resolve({ response: 'deny' });
           }
         }, APPROVAL_TIMEOUT_MS);
       });
@@ -191,15 +207,16 @@ server.tool(
         content: message,
         approvalPort,
         toolName: tool_name,
+        toolInput: input,
+        narrowRule: rules.narrow,
+        broadRule: rules.broad,
+        attachments: preview.attachments,
+        expiresAt,
       });
       
-      const response = await responsePromise;
+      const { response, message: feedback } = await responsePromise;
       
       if (response === 'allow' || response === 'allow_session') {
-        if (response === 'allow_session') {
-          sessionAllowlist.add(tool_name);
-          console.error(`[Approval] Added ${tool_name} to session allowlist`);
-        }
         console.error(`[Approval] Request ${requestId} APPROVED (${response})`);
         return {
           content: [{
@@ -212,7 +229,12 @@ server.tool(
         return {
           content: [{
             type: 'text' as const,
-            text: JSON.stringify({ behavior: 'deny', message: 'User rejected the operation via Discord' }),
+            text: JSON.stringify({
+              behavior: 'deny',
+              message: feedback
+                ? `User denied the operation via Discord with this feedback: ${feedback}`
+                : 'User rejected the operation via Discord',
+            }),
           }],
         };
       }
@@ -236,7 +258,7 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error(`[Approval] Discord Approval MCP server running for channel ${CHANNEL_ID}`);
-  console.error(`[Approval] Session allowlist enabled — "allow for session" will auto-approve future same-tool requests`);
+  console.error(`[Approval] Session rules are enforced by the Discord bot — "allow for session" auto-approves matching requests`);
 }
 
 main().catch((error) => {
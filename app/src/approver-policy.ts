@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApproverPolicy } from './types.js';
+
+// Policy scopes: a channel, or a category whose channels have no policy of their own
+export type ApproverPolicyScope = 'channel' | 'category';
+
+interface PersistedApproverPolicies {
+  channels: Record<string, ApproverPolicy>;
+  categories: Record<string, ApproverPolicy>;
+}
+
+const DEFAULT_POLICY: ApproverPolicy = { mode: 'owner' };
+
+// Stores approver policies per channel and per category (.minion-approver-policies.json)
+export class ApproverPolicyManager {
+  private channelPolicies: Map<string, ApproverPolicy> = new Map(); // channelId -> policy
+  private categoryPolicies: Map<string, ApproverPolicy> = new Map(); // categoryId -> policy
+  private policiesFilePath: string;
+
+  constructor(stateDirectory: string) {
+    this.policiesFilePath = path.join(stateDirectory, '.minion-approver-policies.json');
+    this.loadPolicies();
+  }
+
+  private loadPolicies(): void {
+    try {
+      if (fs.existsSync(this.policiesFilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.policiesFilePath, 'utf-8')) as PersistedApproverPolicies;
+        for (const [id, policy] of Object.entries(data.channels || {})) {
+          this.channelPolicies.set(id, policy);
+        }
+        for (const [id, policy] of Object.entries(data.categories || {})) {
+          this.categoryPolicies.set(id, policy);
+        }
+        console.log(`[Approvers] Loaded ${this.channelPolicies.size} channel and ${this.categoryPolicies.size} category policies`);
+      }
+    } catch (error) {
+      console.error('[Approvers] Error loading approver policies:', error);
+    }
+  }
+
+  private savePolicies(): void {
+    try {
+      const data: PersistedApproverPolicies = { channels: {}, categories: {} };
+      this.channelPolicies.forEach((policy, id) => data.channels[id] = policy);
+      this.categoryPolicies.forEach((policy, id) => data.categories[id] = policy);
+      fs.writeFileSync(this.policiesFilePath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.error('[Approvers] Error saving approver policies:', error);
+    }
+  }
+
+  // Effective policy for a channel: its own, then its category's, then owner only
+  getPolicy(channelId: string, categoryId: string | null): { policy: ApproverPolicy; source: 'channel' | 'category' | 'default' } {
+    const channelPolicy = this.channelPolicies.get(channelId);
+    if (channelPolicy) return { policy: channelPolicy, source: 'channel' };
+    const categoryPolicy = categoryId ? this.categoryPolicies.get(categoryId) : undefined;
+    if (categoryPolicy) return { policy: categoryPolicy, source: 'category' };
+    return { policy: DEFAULT_POLICY, source: 'default' };
+  }
+
+  setPolicy(scope: ApproverPolicyScope, id: string, policy: ApproverPolicy): void {
+    (scope === 'channel' ? this.channelPolicies : this.categoryPolicies).set(id, policy);
+    this.savePolicies();
+  }
+
+  clearPolicy(scope: ApproverPolicyScope, id: string): boolean {
+    const removed = (scope === 'channel' ? this.channelPolicies : this.categoryPolicies).delete(id);
+    if (removed) this.savePolicies();
+    return removed;
+  }
+
+  removeChannel(channelId: string): void {
+    if (this.channelPolicies.delete(channelId)) this.savePolicies();
+  }
+}
+
+// Whether a user passes a policy; roleIds are the member's roles in the guild
+export function isApprover(policy: ApproverPolicy, userId: string, ownerId: string | undefined, roleIds: string[], isAdmin: boolean): boolean {
+  if (ownerId && userId === ownerId) return true;
+  // Without an owner (session reset or expired, e.g. with an approval still open) fail closed:
+  // admins stand in for the owner, everyone else needs the policy's own approver list
+  if (!ownerId && isAdmin) return true;
+  if (policy.mode === 'users') return (policy.userIds || []).includes(userId);
+  if (policy.mode === 'role') return !!policy.roleId && roleIds.includes(policy.roleId);
+  return false;
+}
+
+export function describePolicy(policy: ApproverPolicy): string {
+  if (policy.mode === 'users') {
+    const users = (policy.userIds || []).map(id => `<@${id}>`).join(', ');
+    return `channel owner and ${users || '(no users)'}`;
+  }
+  if (policy.mode === 'role') return `channel owner and members of <@&${policy.roleId}>`;
+  return 'channel owner only';
+}
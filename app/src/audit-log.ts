@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditEntry } from './types.js';
+import { redact, redactValue } from './redact.js';
+
+// Criteria for /audit; every set field must match
+export interface AuditFilter {
+  since?: Date;
+  channelId?: string;
+  userId?: string;
+  tool?: string;       // Case-insensitive tool name, e.g. "bash" or "mcp__github__create_pr"
+}
+
+// Append-only record of prompts, approval decisions and admin actions, persisted to .minion-audit.jsonl.
+// Entries carry full tool inputs, so the file is read on demand instead of kept in memory.
+export class AuditLog {
+  private auditFilePath: string;
+
+  constructor(stateDirectory: string) {
+    this.auditFilePath = path.join(stateDirectory, '.minion-audit.jsonl');
+  }
+
+  record(entry: Omit<AuditEntry, 'timestamp'>): void {
+    const line: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      ...(entry.text !== undefined ? { text: redact(entry.text) } : {}),
+      ...(entry.input !== undefined ? { input: redactValue(entry.input) } : {}),
+    };
+    try {
+      fs.appendFileSync(this.auditFilePath, JSON.stringify(line) + '\n', { mode: 0o600 });
+    } catch (error) {
+      console.error('[Audit] Error writing audit log:', error);
+    }
+  }
+
+  // Matching entries, oldest first
+  query(filter: AuditFilter = {}): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    try {
+      if (!fs.existsSync(this.auditFilePath)) {
+        return entries;
+      }
+      const sinceIso = filter.since?.toISOString();
+      const tool = filter.tool?.toLowerCase();
+      for (const line of fs.readFileSync(this.auditFilePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;  // Skip a line cut short by a crash
+        }
+        if (sinceIso && entry.timestamp < sinceIso) continue;
+        if (filter.channelId && entry.channelId !== filter.channelId) continue;
+        if (filter.userId && entry.userId !== filter.userId) continue;
+        if (tool && entry.tool?.toLowerCase() !== tool) continue;
+        entries.push(entry);
+      }
+    } catch (error) {
+      console.error('[Audit] Error reading audit log:', error);
+    }
+    return entries;
+  }
+}
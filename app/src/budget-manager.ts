@@ -0,0 +1,174 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Budget, UsageEntry } from './types.js';
+import { UsageLedger } from './usage-ledger.js';
+
+// Who a turn is charged to
+export interface BudgetTarget {
+  userId: string;
+  channelId: string;
+  tokenAlias?: string;   // undefined for the inherited token
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  used: number;
+  periodStart: Date;
+  resetsAt: Date;
+}
+
+// Alias name used for turns that ran on the inherited CLAUDE_CODE_OAUTH_TOKEN
+export const DEFAULT_TOKEN_ALIAS = 'default';
+
+// Spending caps checked against the usage ledger, persisted to .minion-budgets.json
+export class BudgetManager {
+  private budgets: Map<string, Budget> = new Map(); // budgetId -> budget
+  private budgetsFilePath: string;
+  private ledger: UsageLedger;
+
+  constructor(stateDirectory: string, ledger: UsageLedger) {
+    this.budgetsFilePath = path.join(stateDirectory, '.minion-budgets.json');
+    this.ledger = ledger;
+    this.loadBudgets();
+  }
+
+  private loadBudgets(): void {
+    try {
+      if (fs.existsSync(this.budgetsFilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.budgetsFilePath, 'utf-8')) as Budget[];
+        for (const budget of data) {
+          this.budgets.set(budget.id, budget);
+        }
+        console.log(`[Budget] Loaded ${this.budgets.size} budget(s)`);
+      }
+    } catch (error) {
+      console.error('[Budget] Error loading budgets:', error);
+    }
+  }
+
+  private saveBudgets(): void {
+    try {
+      fs.writeFileSync(this.budgetsFilePath, JSON.stringify(Array.from(this.budgets.values()), null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.error('[Budget] Error saving budgets:', error);
+    }
+  }
+
+  list(): Budget[] {
+    return Array.from(this.budgets.values());
+  }
+
+  // Create a budget, or replace the limit of the one with the same target, period and metric
+  set(
+    scope: Budget['scope'],
+    targetId: string,
+    period: Budget['period'],
+    metric: Budget['metric'],
+    limit: number,
+    warnPercent: number,
+    createdBy: string
+  ): Budget {
+    const existing = this.list().find(b =>
+      b.scope === scope && b.targetId === targetId && b.period === period && b.metric === metric
+    );
+    const budget: Budget = {
+      id: existing?.id || crypto.randomBytes(3).toString('hex'),
+      scope,
+      targetId,
+      period,
+      metric,
+      limit,
+      warnPercent,
+      createdBy,
+    };
+    this.budgets.set(budget.id, budget);
+    this.saveBudgets();
+    return budget;
+  }
+
+  remove(budgetId: string): boolean {
+    const removed = this.budgets.delete(budgetId);
+    if (removed) {
+      this.saveBudgets();
+    }
+    return removed;
+  }
+
+  // Current spend of every budget that applies to a turn for this target
+  evaluate(target: BudgetTarget): BudgetStatus[] {
+    return this.list()
+      .filter(b => appliesTo(b, target))
+      .map(budget => this.status(budget));
+  }
+
+  status(budget: Budget, now: Date = new Date()): BudgetStatus {
+    const { start, end } = periodBounds(budget.period, now);
+    const used = this.ledger.getEntries(start, e => charges(budget, e))
+      .reduce((sum, e) => sum + (budget.metric === 'cost' ? e.costUsd : e.outputTokens), 0);
+    return { budget, used, periodStart: start, resetsAt: end };
+  }
+
+  // Budgets that reached their hard cap
+  exceeded(target: BudgetTarget): BudgetStatus[] {
+    return this.evaluate(target).filter(s => s.used >= s.budget.limit);
+  }
+
+  // Budgets that just crossed their soft threshold; each is reported once per period
+  takeWarnings(target: BudgetTarget): BudgetStatus[] {
+    const warnings = this.evaluate(target).filter(s =>
+      s.used >= s.budget.limit * s.budget.warnPercent / 100 &&
+      s.budget.warnedFor !== s.periodStart.toISOString()
+    );
+    for (const s of warnings) {
+      s.budget.warnedFor = s.periodStart.toISOString();
+    }
+    if (warnings.length > 0) {
+      this.saveBudgets();
+    }
+    return warnings;
+  }
+}
+
+function appliesTo(budget: Budget, target: BudgetTarget): boolean {
+  switch (budget.scope) {
+    case 'user': return budget.targetId === target.userId;
+    case 'channel': return budget.targetId === target.channelId;
+    case 'alias': return budget.targetId === (target.tokenAlias || DEFAULT_TOKEN_ALIAS);
+  }
+}
+
+// Whether a ledger entry counts against a budget
+function charges(budget: Budget, entry: UsageEntry): boolean {
+  switch (budget.scope) {
+    case 'user': return entry.userId === budget.targetId;
+    case 'channel': return entry.channelId === budget.targetId;
+    case 'alias': return (entry.tokenAlias || DEFAULT_TOKEN_ALIAS) === budget.targetId;
+  }
+}
+
+function periodBounds(period: Budget['period'], now: Date): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+  }
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+}
+
+export function usedPercent(status: BudgetStatus): number {
+  return status.budget.limit > 0 ? Math.floor(status.used / status.budget.limit * 100) : 100;
+}
+
+export function formatBudgetAmount(metric: Budget['metric'], amount: number): string {
+  return metric === 'cost' ? `$${amount.toFixed(2)}` : `${Math.round(amount).toLocaleString()} output tokens`;
+}
+
+export function describeBudget(budget: Budget): string {
+  const target = budget.scope === 'user' ? `<@${budget.targetId}>`
+    : budget.scope === 'channel' ? `<#${budget.targetId}>`
+    : `token \`${budget.targetId}\``;
+  return `${target} ${budget.period} ${formatBudgetAmount(budget.metric, budget.limit)}`;
+}
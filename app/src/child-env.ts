@@ -0,0 +1,15 @@
+// Bot secrets a Claude process must never see: anything in its environment can be read by a turn
+// (`env`, /proc/self/environ) and is inherited by the MCP servers and every command it runs
+const BOT_SECRET_PATTERN = /^(?:DISCORD_BOT_TOKEN|TOKEN_ENCRYPTION_KEY|ORCHESTRATOR_SECRET|CLAUDE_CODE_OAUTH_TOKEN(?:_.+)?)$/;
+
+// Environment for a Claude child process: the bot's own environment minus its secrets, plus `extra`.
+// The OAuth token a turn runs on is passed in `extra` (or per turn), never inherited from .env.
+export function claudeChildEnv(extra: Record<string, string | undefined> = {}): Record<string, string | undefined> {
+  const env: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!BOT_SECRET_PATTERN.test(key)) {
+      env[key] = value;
+    }
+  }
+  return { ...env, ...extra };
+}
@@ -12,30 +12,56 @@ import {
   REST,
   Routes,
   SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
   ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ButtonInteraction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+  EmbedBuilder,
 } from 'discord.js';
 import { SessionManager } from './session-manager.js';
+import { WorktreeManager } from './worktree-manager.js';
+import { ruleMatches } from './approval-rules.js';
+import { buildAuthHeaders, getRequestChannel, verifyRequest } from './orchestrator-auth.js';
+import { ScheduleManager } from './schedule-manager.js';
+import { ApproverPolicyManager, ApproverPolicyScope, isApprover, describePolicy } from './approver-policy.js';
 import { TerminalManager } from './terminal-manager.js';
-import { OAuthToken, PromptInfo } from './types.js';
+import { detectTokenFailure, checkOAuthToken } from './token-health.js';
+import { redact, redactValue, maskSecret } from './redact.js';
+import { AuditLog } from './audit-log.js';
+import { TranscriptExport, TranscriptFormat, exportTranscript, listCliSessions, cliSessionExists } from './transcript.js';
+import { BudgetManager, BudgetStatus, describeBudget, formatBudgetAmount, usedPercent } from './budget-manager.js';
+import { UsageLedger, UsagePeriod, UsageTotals, usageEntryFromOutcome, periodStart, sumUsage, groupUsage, usageToCsv } from './usage-ledger.js';
+import { PromptInfo, OutputMode, TurnProgressEvent, TurnOutcome, ApprovalEscalation, ChannelSchedule } from './types.js';
 import * as http from 'http';
 import * as https from 'https';
 import * as fs from 'fs';
 import * as path from 'path';
 
-interface PendingMessage {
-  user: string;
-  text: string;
-  timestamp: Date;
-  files?: string[];
-}
-
 interface PendingApproval {
   messageId: string;
   channelId: string;
   requestId: string;
   approvalPort: number;
   toolName: string;
+  toolInput?: unknown;   // Redacted; recorded with the decision in the audit log
+  narrowRule?: string;   // Rule matching this call's arguments (2️⃣)
+  broadRule: string;     // Rule matching every call of the tool (3️⃣)
   timestamp: number;
+  expiresAt?: number;    // When the approval server auto-denies the request
+  escalated?: boolean;   // Escalation already sent
+}
+
+// Approval state persisted to .minion-approvals.json
+interface PersistedApprovalState {
+  allowlists: Record<string, string[]>;   // channelId -> approval rules
+  pendingApprovals: PendingApproval[];
 }
 
 interface PendingPrompt {
@@ -45,6 +71,44 @@ interface PendingPrompt {
   timestamp: number;
 }
 
+// Button actions on an approval message (custom ID "approval:<action>")
+type ApprovalAction = 'once' | 'rule' | 'tool' | 'deny' | 'deny_reason';
+
+// Live "working…" message for a stream-json turn
+interface TurnProgress {
+  message?: Message;
+  creating?: Promise<Message | undefined>;
+  startedAt: number;
+  currentStep: string;
+  recentSteps: string[];
+  toolCounts: Map<string, number>;
+  lastEditAt: number;
+  editTimer?: NodeJS.Timeout;
+  tickInterval?: NodeJS.Timeout;
+}
+
+// Messages from one user merged into a single prompt (/coalesce)
+interface CoalescedPrompt {
+  userId: string;
+  speaker?: string;         // Display name prefixed in shared channels
+  messages: Message[];
+  texts: string[];
+  files: string[];          // Saved attachment paths from every message
+  timer?: NodeJS.Timeout;   // Window timer while the batch has not been sent yet
+  queueId?: number;         // Queue entry once the batch is waiting for Claude
+}
+
+// Longest /coalesce window
+const MAX_COALESCE_SECONDS = 60;
+
+// Largest file a bot can upload to a server without boosts
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Minimum gap between edits of a progress message (Discord rate limits edits)
+const PROGRESS_EDIT_INTERVAL_MS = 2000;
+// How often the elapsed time is refreshed when no events arrive
+const PROGRESS_TICK_MS = 10000;
+
 // Number emoji mapping
 const NUMBER_EMOJIS = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣'];
 const EMOJI_TO_INDEX: Record<string, number> = {
@@ -60,41 +124,75 @@ export class DiscordBot {
   private orchestratorServer: http.Server | null = null;
   private workingDirectory: string;
   private appDirectory: string;
-  private oauthTokens: OAuthToken[];
+  private stateDirectory: string;  // Owner-only, outside the working tree: state Claude must not read or edit
   private categoryName: string;
   private botToken: string;
+  private allowedWorkingRoot: string;
+  private worktreeManager: WorktreeManager | null;  // null unless WORKTREE_MODE is on
+  private approvalEscalation: ApprovalEscalation | null;  // null unless APPROVAL_ESCALATION is set
 
-  // Message queue per channel
-  private messageQueues: Map<string, PendingMessage[]> = new Map();
-  
   // Pending approval requests (messageId -> approval info)
   private pendingApprovals: Map<string, PendingApproval> = new Map();
   
-  // Session allowlist: channelId -> Set of tool names approved for the session
+  // Session allowlist: channelId -> Set of approval rules (see approval-rules.ts) approved for the session
   private sessionAllowlists: Map<string, Set<string>> = new Map();
   
+  // Path to persist session allowlists and pending approvals
+  private approvalStateFilePath: string;
+
+  // Who may answer approvals and prompts and run /reset or /interrupt, per channel or category
+  private approverPolicies: ApproverPolicyManager;
+
+  // Recurring prompts per channel (/schedule)
+  private scheduleManager: ScheduleManager;
+
+  // Every completed turn with its tokens and cost (/usage)
+  private usageLedger: UsageLedger;
+
+  // Spending caps per user, channel and token alias (/budget)
+  private budgets: BudgetManager;
+
+  // Prompts, approval decisions and admin actions (/audit)
+  private auditLog: AuditLog;
+
+  // Expiry and escalation timers per pending approval (messageId -> timers)
+  private approvalTimers: Map<string, NodeJS.Timeout[]> = new Map();
+
   // Pending interactive prompts (messageId -> prompt info)
   private pendingPrompts: Map<string, PendingPrompt> = new Map();
 
   // Typing indicator intervals per channel
   private typingIntervals: Map<string, NodeJS.Timeout> = new Map();
 
+  // Live progress message per channel for stream-json turns
+  private turnProgress: Map<string, TurnProgress> = new Map();
+
+  // Batch of rapid-fire messages per channel being merged into one prompt
+  private coalescedPrompts: Map<string, CoalescedPrompt> = new Map();
+
   constructor(
     botToken: string,
     workingDirectory: string,
     appDirectory: string,
+    stateDirectory: string,
     sessionManager: SessionManager,
     terminalManager: TerminalManager,
-    oauthTokens: OAuthToken[] = [],
-    categoryName: string = 'Claude Code'
+    categoryName: string = 'Claude Code',
+    allowedWorkingRoot: string = workingDirectory,
+    worktreeManager: WorktreeManager | null = null,
+    approvalEscalation: ApprovalEscalation | null = null,
+    scheduleTimezone?: string
   ) {
     this.botToken = botToken;
     this.workingDirectory = workingDirectory;
     this.appDirectory = appDirectory;
+    this.stateDirectory = stateDirectory;
     this.sessionManager = sessionManager;
     this.terminalManager = terminalManager;
-    this.oauthTokens = oauthTokens;
     this.categoryName = categoryName;
+    this.allowedWorkingRoot = allowedWorkingRoot;
+    this.worktreeManager = worktreeManager;
+    this.approvalEscalation = approvalEscalation;
 
     this.client = new Client({
       intents: [
@@ -104,16 +202,365 @@ export class DiscordBot {
         GatewayIntentBits.DirectMessages,
         GatewayIntentBits.GuildMessageReactions,
       ],
-      partials: [Partials.Channel, Partials.Message],
+      // Reaction partials let reactions on messages sent before a restart reach the handler
+      partials: [Partials.Channel, Partials.Message, Partials.Reaction, Partials.User],
     });
 
+    this.approvalStateFilePath = path.join(stateDirectory, '.minion-approvals.json');
+    this.loadApprovalState();
+    this.approverPolicies = new ApproverPolicyManager(stateDirectory);
+    this.scheduleManager = new ScheduleManager(workingDirectory, (schedule) => this.runSchedule(schedule), scheduleTimezone);
+    this.usageLedger = new UsageLedger(stateDirectory);
+    this.budgets = new BudgetManager(stateDirectory, this.usageLedger);
+    this.auditLog = new AuditLog(stateDirectory);
     this.setupEventHandlers();
   }
 
+  // Load persisted session allowlists and pending approvals
+  private loadApprovalState(): void {
+    try {
+      if (fs.existsSync(this.approvalStateFilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.approvalStateFilePath, 'utf-8')) as PersistedApprovalState;
+        for (const [channelId, rules] of Object.entries(data.allowlists || {})) {
+          this.sessionAllowlists.set(channelId, new Set(rules));
+        }
+        for (const approval of data.pendingApprovals || []) {
+          this.pendingApprovals.set(approval.messageId, approval);
+        }
+        console.log(`[Approval] Loaded ${this.sessionAllowlists.size} channel allowlist(s), ${this.pendingApprovals.size} pending approval(s)`);
+      }
+    } catch (error) {
+      console.error('[Approval] Error loading approval state:', error);
+    }
+  }
+
+  // Save session allowlists and pending approvals to disk
+  private saveApprovalState(): void {
+    try {
+      const data: PersistedApprovalState = { allowlists: {}, pendingApprovals: [] };
+      this.sessionAllowlists.forEach((rules, channelId) => {
+        if (rules.size > 0) data.allowlists[channelId] = Array.from(rules);
+      });
+      data.pendingApprovals = Array.from(this.pendingApprovals.values());
+      fs.writeFileSync(this.approvalStateFilePath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.error('[Approval] Error saving approval state:', error);
+    }
+  }
+
+  // After a restart, keep approvals whose approval server is still waiting and mark the rest expired
+  private async rehydratePendingApprovals(): Promise<void> {
+    if (this.pendingApprovals.size === 0) return;
+
+    for (const approval of Array.from(this.pendingApprovals.values())) {
+      const stillPending = await this.isApprovalStillPending(approval);
+      if (stillPending) {
+        console.log(`[Approval] Rehydrated pending request ${approval.requestId} (message ${approval.messageId})`);
+        this.scheduleApprovalTimers(approval);
+        continue;
+      }
+
+      this.pendingApprovals.delete(approval.messageId);
+      this.auditApproval(approval, 'deny', 'timeout', { reason: 'bot restarted before it was answered' });
+      try {
+        const channel = await this.client.channels.fetch(approval.channelId) as TextChannel;
+        const message = await channel.messages.fetch(approval.messageId);
+        await message.edit(this.renderResolvedApproval(approval, '⌛ **Expired** — the bot restarted before this was answered (auto-denied)', 'expired'));
+        console.log(`[Approval] Marked request ${approval.requestId} expired after restart`);
+      } catch (error) {
+        console.error(`[Approval] Could not mark request ${approval.requestId} expired:`, error);
+      }
+    }
+    this.saveApprovalState();
+  }
+
+  // Ask the approval server whether it is still waiting for this request
+  private isApprovalStillPending(approval: PendingApproval): Promise<boolean> {
+    const secret = this.terminalManager.getChannelSecret(approval.channelId);
+    if (!secret) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      const req = http.get({
+        hostname: '127.0.0.1',
+        port: approval.approvalPort,
+        path: '/pending',
+        timeout: 2000,
+        headers: buildAuthHeaders(secret, approval.channelId, 'GET', '/pending', ''),
+      }, (res) => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => {
+          try {
+            const { requestIds } = JSON.parse(body);
+            resolve(Array.isArray(requestIds) && requestIds.includes(approval.requestId));
+          } catch {
+            resolve(false);
+          }
+        });
+      });
+      req.on('timeout', () => req.destroy());
+      req.on('error', () => resolve(false));
+    });
+  }
+
+  // Mark the message expired when the approval server auto-denies, and escalate halfway there
+  private scheduleApprovalTimers(approval: PendingApproval): void {
+    if (!approval.expiresAt) return;
+    this.clearApprovalTimers(approval.messageId);
+
+    const now = Date.now();
+    const timers = [
+      setTimeout(() => this.expireApproval(approval.messageId), Math.max(approval.expiresAt - now, 0)),
+    ];
+
+    const halfway = approval.timestamp + (approval.expiresAt - approval.timestamp) / 2;
+    if (this.approvalEscalation && !approval.escalated && halfway > now) {
+      timers.push(setTimeout(() => this.escalateApproval(approval.messageId), halfway - now));
+    }
+    this.approvalTimers.set(approval.messageId, timers);
+  }
+
+  private clearApprovalTimers(messageId: string): void {
+    for (const timer of this.approvalTimers.get(messageId) || []) {
+      clearTimeout(timer);
+    }
+    this.approvalTimers.delete(messageId);
+  }
+
+  private async expireApproval(messageId: string): Promise<void> {
+    this.approvalTimers.delete(messageId);
+    const approval = this.pendingApprovals.get(messageId);
+    if (!approval) return;
+
+    this.pendingApprovals.delete(messageId);
+    this.saveApprovalState();
+    console.log(`[Approval] Request ${approval.requestId} expired (auto-denied)`);
+    this.auditApproval(approval, 'deny', 'timeout', { reason: 'no response before the timeout' });
+
+    try {
+      const channel = await this.client.channels.fetch(approval.channelId) as TextChannel;
+      const message = await channel.messages.fetch(messageId);
+      const minutes = Math.round((approval.expiresAt! - approval.timestamp) / 60000);
+      await message.edit(this.renderResolvedApproval(
+        approval,
+        `⌛ **Expired** — no response within ${minutes} minute${minutes === 1 ? '' : 's'} (auto-denied)`,
+        'expired'
+      ));
+    } catch (error) {
+      console.error(`[Approval] Could not mark request ${approval.requestId} expired:`, error);
+    }
+  }
+
+  // Nudge the channel owner or approver role about a request that is still open
+  private async escalateApproval(messageId: string): Promise<void> {
+    const approval = this.pendingApprovals.get(messageId);
+    if (!approval || !this.approvalEscalation) return;
+
+    approval.escalated = true;
+    this.saveApprovalState();
+
+    try {
+      const channel = await this.client.channels.fetch(approval.channelId) as TextChannel;
+      const link = `https://discord.com/channels/${channel.guildId}/${approval.channelId}/${messageId}`;
+      const expiry = `<t:${Math.floor(approval.expiresAt! / 1000)}:R>`;
+
+      if (this.approvalEscalation.mode === 'role' && this.approvalEscalation.roleId) {
+        const roleId = this.approvalEscalation.roleId;
+        await channel.send({
+          content: `<@&${roleId}> ⏰ \`${approval.toolName}\` is waiting for approval and will be auto-denied ${expiry}.`,
+          reply: { messageReference: messageId },
+          allowedMentions: { roles: [roleId] },
+        });
+      } else {
+        const ownerId = this.sessionManager.getChannelSession(approval.channelId)?.ownerId;
+        if (!ownerId) return;
+        const owner = await this.client.users.fetch(ownerId);
+        await owner.send(`⏰ \`${approval.toolName}\` is waiting for approval in <#${approval.channelId}> and will be auto-denied ${expiry}.\n${link}`);
+      }
+      console.log(`[Approval] Escalated request ${approval.requestId} (${this.approvalEscalation.mode})`);
+    } catch (error) {
+      console.error(`[Approval] Could not escalate request ${approval.requestId}:`, error);
+    }
+  }
+
+  private buildApprovalButtons(approval: PendingApproval, disabled: boolean = false): ActionRowBuilder<ButtonBuilder>[] {
+    // Button labels are limited to 80 characters
+    const label = (text: string) => text.length > 80 ? text.substring(0, 77) + '...' : text;
+
+    const allowRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId('approval:once').setLabel('Allow once').setStyle(ButtonStyle.Success).setDisabled(disabled),
+    );
+    if (approval.narrowRule) {
+      allowRow.addComponents(
+        new ButtonBuilder().setCustomId('approval:rule').setLabel(label(`Allow ${approval.narrowRule}`)).setStyle(ButtonStyle.Primary).setDisabled(disabled),
+      );
+    }
+    allowRow.addComponents(
+      new ButtonBuilder().setCustomId('approval:tool').setLabel(label(`Allow all ${approval.broadRule}`)).setStyle(ButtonStyle.Secondary).setDisabled(disabled),
+    );
+
+    const denyRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId('approval:deny').setLabel('Deny').setStyle(ButtonStyle.Danger).setDisabled(disabled),
+      new ButtonBuilder().setCustomId('approval:deny_reason').setLabel('Deny with reason…').setStyle(ButtonStyle.Danger).setDisabled(disabled),
+    );
+
+    return [allowRow, denyRow];
+  }
+
+  // Message edit for a resolved approval: disabled buttons plus the decision as an embed
+  private renderResolvedApproval(approval: PendingApproval, decisionText: string, outcome: 'allowed' | 'denied' | 'expired') {
+    const colors = { allowed: 0x2ecc71, denied: 0xe74c3c, expired: 0x95a5a6 };
+    return {
+      embeds: [new EmbedBuilder().setDescription(decisionText).setColor(colors[outcome])],
+      components: this.buildApprovalButtons(approval, true),
+    };
+  }
+
+  private async handleApprovalButton(interaction: ButtonInteraction): Promise<void> {
+    const approval = this.pendingApprovals.get(interaction.message.id);
+    if (!approval) {
+      await interaction.reply({ content: 'This request is no longer pending.', ephemeral: true });
+      return;
+    }
+
+    const action = interaction.customId.split(':')[1] as ApprovalAction;
+
+    if (!(await this.isChannelApprover(approval.channelId, interaction.user.id))) {
+      console.log(`[Approval] Rejected ${action} on request ${approval.requestId} from unauthorized user ${interaction.user.id}`);
+      await interaction.reply({ content: '🚫 You are not allowed to answer approvals in this channel. See `/approvers show`.', ephemeral: true });
+      return;
+    }
+
+    // The modal must be the first response to the click
+    if (action === 'deny_reason') {
+      const modal = new ModalBuilder()
+        .setCustomId(`approval-reason:${approval.messageId}`)
+        .setTitle('Deny with reason')
+        .addComponents(
+          new ActionRowBuilder<TextInputBuilder>().addComponents(
+            new TextInputBuilder()
+              .setCustomId('reason')
+              .setLabel('What should Claude do instead?')
+              .setStyle(TextInputStyle.Paragraph)
+              .setRequired(true)
+              .setMaxLength(1000)
+          )
+        );
+      await interaction.showModal(modal);
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    let response: 'allow' | 'allow_session' | 'deny';
+    let rule: string | undefined;
+    let decisionText: string;
+
+    if (action === 'once') {
+      response = 'allow';
+      decisionText = `✅ **Allowed once** by <@${interaction.user.id}>`;
+    } else if ((action === 'rule' && approval.narrowRule) || action === 'tool') {
+      response = 'allow_session';
+      rule = action === 'rule' ? approval.narrowRule! : approval.broadRule;
+      decisionText = `✅ **Allowed \`${rule}\` for this session** by <@${interaction.user.id}>`;
+    } else {
+      response = 'deny';
+      decisionText = `❌ **Denied** by <@${interaction.user.id}>`;
+    }
+
+    if (await this.resolveApproval(approval, interaction.user.id, response, rule)) {
+      await interaction.editReply(this.renderResolvedApproval(approval, decisionText, response === 'deny' ? 'denied' : 'allowed'));
+    } else {
+      await interaction.followUp({ content: '❌ Failed to deliver the response to Claude.', ephemeral: true });
+    }
+  }
+
+  private async handleApprovalReason(interaction: ModalSubmitInteraction): Promise<void> {
+    const messageId = interaction.customId.split(':')[1];
+    const approval = this.pendingApprovals.get(messageId);
+    if (!approval || !interaction.isFromMessage()) {
+      await interaction.reply({ content: 'This request is no longer pending.', ephemeral: true });
+      return;
+    }
+    if (!(await this.isChannelApprover(approval.channelId, interaction.user.id))) {
+      console.log(`[Approval] Rejected deny_reason on request ${approval.requestId} from unauthorized user ${interaction.user.id}`);
+      await interaction.reply({ content: '🚫 You are not allowed to answer approvals in this channel.', ephemeral: true });
+      return;
+    }
+
+    await interaction.deferUpdate();
+    const reason = interaction.fields.getTextInputValue('reason').trim();
+
+    if (await this.resolveApproval(approval, interaction.user.id, 'deny', undefined, reason)) {
+      const quoted = reason.split('\n').map(line => `> ${line}`).join('\n');
+      await interaction.editReply(this.renderResolvedApproval(
+        approval,
+        `❌ **Denied** by <@${interaction.user.id}> with feedback:\n${quoted}`,
+        'denied'
+      ));
+    } else {
+      await interaction.followUp({ content: '❌ Failed to deliver the response to Claude.', ephemeral: true });
+    }
+  }
+
+  // Send the decision to the approval server and update bot state; returns false if delivery failed
+  private async resolveApproval(
+    approval: PendingApproval,
+    userId: string,
+    response: 'allow' | 'allow_session' | 'deny',
+    rule?: string,
+    reason?: string
+  ): Promise<boolean> {
+    console.log(`[Approval] User ${userId} ${response}${rule ? ` (${rule})` : ''} request ${approval.requestId}`);
+
+    try {
+      await this.sendApprovalResponse(approval.channelId, approval.approvalPort, approval.requestId, response, rule, reason);
+    } catch (error) {
+      console.error('[Approval] Failed to send response:', error);
+      return false;
+    }
+
+    if (rule) {
+      // Add to bot-level session allowlist
+      if (!this.sessionAllowlists.has(approval.channelId)) {
+        this.sessionAllowlists.set(approval.channelId, new Set());
+      }
+      this.sessionAllowlists.get(approval.channelId)!.add(rule);
+    }
+    this.auditApproval(approval, response, 'user', { userId, rule, reason });
+    this.pendingApprovals.delete(approval.messageId);
+    this.clearApprovalTimers(approval.messageId);
+    this.saveApprovalState();
+    return true;
+  }
+
+  // Record an approval request together with how it was decided
+  private auditApproval(
+    approval: Pick<PendingApproval, 'channelId' | 'requestId' | 'toolName' | 'toolInput'>,
+    decision: 'allow' | 'allow_session' | 'deny',
+    decidedBy: 'user' | 'allowlist' | 'timeout',
+    details: { userId?: string; rule?: string; reason?: string } = {}
+  ): void {
+    this.auditLog.record({
+      action: 'approval',
+      channelId: approval.channelId,
+      requestId: approval.requestId,
+      tool: approval.toolName,
+      input: approval.toolInput,
+      decision,
+      decidedBy,
+      ...details,
+    });
+  }
+
   private setupEventHandlers(): void {
     this.client.once(Events.ClientReady, (c) => {
       console.log(`⚡️ Discord bot ready! Logged in as ${c.user.tag}`);
       console.log(`Watching for channels in category: "${this.categoryName}"`);
+      this.rehydratePendingApprovals().catch(err => {
+        console.error('[Approval] Failed to rehydrate pending approvals:', err);
+      });
+      this.scheduleManager.start();
     });
 
     // Handle messages
@@ -138,13 +585,43 @@ export class DiscordBot {
       }
     });
 
-    // Handle slash commands
+    // Clean up when a channel with a session is deleted
+    this.client.on(Events.ChannelDelete, async (channel) => {
+      const channelSession = this.sessionManager.getChannelSession(channel.id);
+      if (!channelSession) return;
+
+      console.log(`[Channel ${channel.id}] Channel deleted, stopping Claude Code`);
+      this.terminalManager.killByChannelId(channel.id);
+      this.terminalManager.resetConversation(channel.id);
+      this.stopTypingIndicator(channel.id);
+      this.sessionAllowlists.delete(channel.id);
+      this.saveApprovalState();
+      this.approverPolicies.removeChannel(channel.id);
+      this.scheduleManager.removeChannel(channel.id);
+      this.terminalManager.removeSessionHistory(channel.id);
+      await this.cleanupChannelWorktree(channel.id);
+      this.sessionManager.removeChannelSession(channel.id);
+    });
+
+    // Handle slash commands and approval buttons
     this.client.on(Events.InteractionCreate, async (interaction) => {
+      if (interaction.isButton() && interaction.customId.startsWith('approval:')) {
+        await this.handleApprovalButton(interaction);
+        return;
+      }
+      if (interaction.isModalSubmit() && interaction.customId.startsWith('approval-reason:')) {
+        await this.handleApprovalReason(interaction);
+        return;
+      }
+      if (interaction.isAutocomplete()) {
+        await this.handleAutocomplete(interaction);
+        return;
+      }
       if (!interaction.isChatInputCommand()) return;
       await this.handleSlashCommand(interaction);
     });
 
-    // Handle reactions for approval system and interactive prompts
+    // Handle reactions for interactive prompts
     this.client.on(Events.MessageReactionAdd, async (reaction, user) => {
       // Ignore bot's own reactions
       if (user.bot) return;
@@ -152,58 +629,20 @@ export class DiscordBot {
       const messageId = reaction.message.id;
       const emoji = reaction.emoji.name || '';
 
-      // Check if this is a pending approval message (MCP tool approval)
-      const approval = this.pendingApprovals.get(messageId);
-      if (approval) {
-        // Map reactions to responses
-        let response: 'allow' | 'allow_session' | 'deny' | null = null;
-        let resultText = '';
-        let resultEmoji = '';
-
-        if (emoji === '1️⃣') {
-          response = 'allow';
-          resultEmoji = '✅';
-          resultText = 'APPROVED (once)';
-        } else if (emoji === '2️⃣') {
-          response = 'allow_session';
-          resultEmoji = '✅';
-          resultText = `APPROVED for session (${approval.toolName || 'tool'})`;
-          // Add to bot-level session allowlist
-          if (!this.sessionAllowlists.has(approval.channelId)) {
-            this.sessionAllowlists.set(approval.channelId, new Set());
-          }
-          this.sessionAllowlists.get(approval.channelId)!.add(approval.toolName);
-        } else if (emoji === '3️⃣') {
-          response = 'deny';
-          resultEmoji = '❌';
-          resultText = 'REJECTED';
-        } else {
-          return; // Ignore other reactions
-        }
-
-        console.log(`[Approval] User ${user.id} ${resultText} request ${approval.requestId}`);
-
-        try {
-          await this.sendApprovalResponse(approval.approvalPort, approval.requestId, response);
-          
-          const channel = await this.client.channels.fetch(approval.channelId) as TextChannel;
-          const message = await channel.messages.fetch(messageId);
-          
-          await message.edit(message.content + `\n\n**${resultEmoji} ${resultText}** by <@${user.id}>`);
-          
-          this.pendingApprovals.delete(messageId);
-        } catch (error) {
-          console.error('[Approval] Failed to send response:', error);
-        }
-        return;
-      }
-
       // Check if this is a pending interactive prompt (PTY prompt)
       const prompt = this.pendingPrompts.get(messageId);
       if (prompt) {
         const optionIndex = EMOJI_TO_INDEX[emoji];
         if (optionIndex === undefined || optionIndex >= prompt.options.length) return;
 
+        if (!(await this.isChannelApprover(prompt.channelId, user.id))) {
+          console.log(`[Prompt] Removed reaction ${emoji} on prompt ${messageId} from unauthorized user ${user.id}`);
+          await reaction.users.remove(user.id).catch(err => {
+            console.error('[Prompt] Failed to remove reaction:', err);
+          });
+          return;
+        }
+
         console.log(`[Prompt] User ${user.id} selected option ${optionIndex + 1}: ${prompt.options[optionIndex]}`);
 
         try {
@@ -232,21 +671,43 @@ export class DiscordBot {
     const text = message.content.trim();
     const upperText = text.toUpperCase();
 
-    // Check if it's a session token (8 character hex)
-    if (/^[A-F0-9]{8}$/.test(upperText)) {
-      const session = this.sessionManager.getSessionByToken(upperText);
-      if (session) {
-        this.sessionManager.updateSessionUser(upperText, userId, message.channel.id);
-        await message.reply(
-          `✅ **Session configured!**\n` +
-          `Working directory: \`${session.workingDirectory}\`\n\n` +
-          `Now go to any channel under the **${this.categoryName}** category and send a message - Claude Code will start automatically.`
-        );
-      } else {
-        await message.reply(
-          `❌ Invalid session token \`${upperText}\`.\n\n` +
-          `The token should be 8 characters like \`A1B2C3D4\` - shown in the terminal when you run \`npm start\`.`
-        );
+    // Check if it's a session token (16 character hex; older tokens were 8)
+    if (/^[A-F0-9]{8}([A-F0-9]{8})?$/.test(upperText)) {
+      const existing = this.sessionManager.getSessionByUserId(userId);
+      if (existing) {
+        await message.reply(`✅ You're already linked. Send \`sessions\` to see your access or \`unlink\` to disconnect.`);
+        return;
+      }
+
+      const result = this.sessionManager.redeemToken(upperText, userId, message.channel.id);
+      switch (result) {
+        case 'linked': {
+          const session = this.sessionManager.getSessionByToken(upperText)!;
+          console.log(`[Session] User ${userId} linked session ${upperText}${session.invitedBy ? ` (invited by ${session.invitedBy})` : ''}`);
+          await message.reply(
+            `✅ **Session configured!**\n` +
+            `Working directory: \`${session.workingDirectory}\`\n\n` +
+            `Now go to any channel under the **${this.categoryName}** category and send a message - Claude Code will start automatically.`
+          );
+          break;
+        }
+        case 'locked': {
+          const minutes = Math.ceil(this.sessionManager.getLockoutRemainingMs(userId) / 60000);
+          await message.reply(`🔒 Too many invalid tokens. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+          break;
+        }
+        case 'expired':
+          await message.reply('❌ That session token has expired. Ask an admin for a new invite.');
+          break;
+        case 'used':
+          await message.reply('❌ That session token has already been used. Ask an admin for a new invite.');
+          break;
+        default:
+          console.log(`[Session] Invalid token attempt from user ${userId}`);
+          await message.reply(
+            `❌ Invalid session token.\n\n` +
+            `Tokens are 16 characters, shown in the terminal when you first run \`npm start\` or created by an admin with \`invite\`.`
+          );
       }
       return;
     }
@@ -254,11 +715,50 @@ export class DiscordBot {
     // Handle DM commands
     const lowerText = text.toLowerCase();
 
+    const tokenMatch = text.match(/^!?token\s+(add|remove|check)(?:\s+(\S+))?(?:\s+(\S+))?\s*$/i);
+    if (tokenMatch) {
+      await this.handleTokenCommand(message, tokenMatch[1].toLowerCase(), tokenMatch[2], tokenMatch[3]);
+      return;
+    }
+
     if (lowerText === 'tokens' || lowerText === '!tokens') {
       await this.handleTokensCommand(message);
       return;
     }
 
+    if (lowerText === 'invite' || lowerText === '!invite') {
+      await this.handleInviteCommand(message);
+      return;
+    }
+
+    if (lowerText === 'sessions' || lowerText === '!sessions') {
+      await this.handleSessionsCommand(message);
+      return;
+    }
+
+    if (lowerText === 'unlink' || lowerText === '!unlink') {
+      const removed = this.sessionManager.removeSessionByUserId(userId);
+      if (removed) {
+        console.log(`[Session] User ${userId} unlinked session ${removed.token}`);
+        await message.reply('👋 Unlinked. You need a new session token to use Claude Code again.');
+      } else {
+        await message.reply('You are not linked.');
+      }
+      return;
+    }
+
+    const revokeMatch = text.match(/^!?revoke\s+(\S+)$/i);
+    if (revokeMatch) {
+      await this.handleRevokeCommand(message, revokeMatch[1]);
+      return;
+    }
+
+    const fallbackMatch = text.match(/^!?fallback(?:\s+(.+))?$/i);
+    if (fallbackMatch) {
+      await this.handleFallbackCommand(message, fallbackMatch[1]);
+      return;
+    }
+
     const useMatch = lowerText.match(/^!?use\s+(\S+)$/);
     if (useMatch) {
       await this.handleUseTokenCommand(message, useMatch[1]);
@@ -275,9 +775,8 @@ export class DiscordBot {
     if (!session) {
       await message.reply(
         `Welcome! To get started:\n` +
-        `1. Run \`npm start\` on your server\n` +
-        `2. Copy the **SESSION TOKEN** shown (8 characters like \`A1B2C3D4\`)\n` +
-        `3. Send me that token here\n\n` +
+        `1. Get a session token: the **SESSION TOKEN** shown by \`npm start\`, or an invite from an admin\n` +
+        `2. Send me that token here (16 characters, valid once)\n\n` +
         `**Commands:**\n` +
         `• \`tokens\` - List available OAuth tokens\n` +
         `• \`use <alias>\` - Switch to a different token\n` +
@@ -294,8 +793,79 @@ export class DiscordBot {
     }
   }
 
+  // Admins mint one-off session tokens for new team members
+  private async handleInviteCommand(message: Message): Promise<void> {
+    const userId = message.author.id;
+    if (!this.sessionManager.isAdmin(userId)) {
+      await message.reply('❌ Only admins can create invites.');
+      return;
+    }
+
+    const invite = this.sessionManager.createSession('', '', this.workingDirectory, userId);
+    console.log(`[Session] Admin ${userId} created invite ${invite.token}`);
+    await message.reply(
+      `🎟️ **Invite token:** \`${invite.token}\`\n\n` +
+      `Send it to the new user and have them DM it to me. It links to the first account that uses it ` +
+      `and expires <t:${Math.floor(invite.expiresAt!.getTime() / 1000)}:R>.`
+    );
+  }
+
+  private async handleSessionsCommand(message: Message): Promise<void> {
+    const userId = message.author.id;
+    const session = this.sessionManager.getSessionByUserId(userId);
+    if (!session) {
+      await message.reply('You are not linked. Send me a session token to get started.');
+      return;
+    }
+
+    const linkedAt = session.linkedAt || session.createdAt;
+    const channels = this.sessionManager.getChannelSessionsForUser(userId)
+      .map(c => `• <#${c.channelId}>${c.ownerId === userId ? ' (owner)' : ''}`);
+    let reply = `🔗 **Linked** since <t:${Math.floor(linkedAt.getTime() / 1000)}:f>\n` +
+      `**Channels:**\n${channels.length > 0 ? channels.join('\n') : '(none)'}`;
+
+    if (this.sessionManager.isAdmin(userId)) {
+      const users = this.sessionManager.getLinkedSessions().map(s => `• <@${s.userId}>`);
+      const invites = this.sessionManager.getUnlinkedSessions()
+        .map(s => `• \`${s.token}\` expires <t:${Math.floor(s.expiresAt!.getTime() / 1000)}:R>`);
+      reply += `\n\n**Linked users:**\n${users.join('\n')}` +
+        `\n\n**Pending invites:**\n${invites.length > 0 ? invites.join('\n') : '(none)'}` +
+        `\n\nTo remove: \`revoke <@user or invite token>\``;
+    }
+
+    await message.reply(reply);
+  }
+
+  // Admins unlink a user or cancel an unused invite
+  private async handleRevokeCommand(message: Message, target: string): Promise<void> {
+    const userId = message.author.id;
+    if (!this.sessionManager.isAdmin(userId)) {
+      await message.reply('❌ Only admins can revoke sessions.');
+      return;
+    }
+
+    if (this.sessionManager.removeUnlinkedSession(target)) {
+      console.log(`[Session] Admin ${userId} cancelled invite ${target.toUpperCase()}`);
+      await message.reply(`🗑️ Invite \`${target.toUpperCase()}\` cancelled.`);
+      return;
+    }
+
+    const targetUserId = target.replace(/^<@!?(\d+)>$/, '$1');
+    if (targetUserId === userId) {
+      await message.reply('Use `unlink` to disconnect yourself.');
+      return;
+    }
+    const removed = this.sessionManager.removeSessionByUserId(targetUserId);
+    if (!removed) {
+      await message.reply(`❌ No linked user or pending invite matches \`${target}\`.`);
+      return;
+    }
+    console.log(`[Session] Admin ${userId} revoked user ${targetUserId}`);
+    await message.reply(`🗑️ Unlinked <@${targetUserId}>. They need a new invite to use Claude Code again.`);
+  }
+
   private async handleTokensCommand(message: Message): Promise<void> {
-    const tokens = this.oauthTokens;
+    const tokens = this.sessionManager.getOAuthTokens();
     const userId = message.author.id;
 
     if (tokens.length === 0) {
@@ -308,49 +878,175 @@ export class DiscordBot {
       return;
     }
 
-    const currentToken = this.sessionManager.getOAuthTokenForUser(userId);
+    const currentToken = this.sessionManager.getPreferredOAuthToken(userId);
     const currentAlias = currentToken?.alias || 'default';
+    const fallbacks = this.sessionManager.getUserSettings(userId)?.fallbackAliases || [];
 
     let tokenList = '**Available OAuth Tokens:**\n';
     for (const token of tokens) {
       const isSelected = token.alias === currentAlias;
       const selectedMarker = isSelected ? ' ✅' : '';
       const defaultMarker = token.isDefault ? ' (default)' : '';
-      const preview = token.token.substring(0, 15) + '...';
-      tokenList += `• \`${token.alias}\`${defaultMarker}${selectedMarker} - \`${preview}\`\n`;
+      const preview = maskSecret(token.token);
+      const cooldown = this.sessionManager.getTokenCooldown(token.alias);
+      const health = cooldown
+        ? `⏸️ ${cooldown.reason === 'auth' ? 'rejected' : 'rate limited'}, retry <t:${Math.floor(cooldown.until.getTime() / 1000)}:R>`
+        : '🟢 healthy';
+      tokenList += `• \`${token.alias}\`${defaultMarker}${selectedMarker} - \`${preview}\` - ${health}\n`;
     }
-    tokenList += `\nTo switch: \`use <alias>\``;
+    tokenList += `\nFallback order: ${fallbacks.length > 0 ? fallbacks.map(a => `\`${a}\``).join(' → ') : 'none'}`;
+    tokenList += `\nTo switch: \`use <alias>\` · To set fallbacks: \`fallback <alias> ...\` (\`fallback none\` to clear)`;
 
     await message.reply(tokenList);
   }
 
-  private async handleUseTokenCommand(message: Message, alias: string): Promise<void> {
-    const token = this.oauthTokens.find(t => t.alias.toLowerCase() === alias.toLowerCase());
-    if (!token) {
-      const available = this.oauthTokens.map(t => `\`${t.alias}\``).join(', ');
-      await message.reply(`❌ Token \`${alias}\` not found.\n\nAvailable: ${available}`);
+  // token add|remove|check — adding needs TOKEN_ENCRYPTION_KEY; add and remove are admin only
+  private async handleTokenCommand(message: Message, action: string, alias: string | undefined, secret: string | undefined): Promise<void> {
+    const userId = message.author.id;
+    // Plain sends: replies would keep pointing at the message the user is asked to delete
+    const send = (content: string) => (message.channel as DMChannel).send(content);
+
+    // Bots can't delete the user's messages in DMs, so the secret stays in the chat until they do
+    if (secret) {
+      await send('⚠️ **Delete your message with the token now** — it stays in this DM until you do.');
+    }
+
+    if (!alias || (action === 'add') !== !!secret) {
+      await send(`Usage: \`token add <alias> <oauth-token>\`, \`token remove <alias>\`, \`token check <alias>\``);
       return;
     }
+    alias = alias.toLowerCase();
 
-    const success = this.sessionManager.setUserTokenPreference(message.author.id, token.alias);
-    if (success) {
-      await message.reply(`✅ Switched to token \`${token.alias}\``);
-    } else {
-      await message.reply(`❌ Failed to save token preference.`);
+    if (action === 'check') {
+      if (!this.sessionManager.getSessionByUserId(userId)) {
+        await send('You are not linked. Send me a session token to get started.');
+        return;
+      }
+      const token = this.sessionManager.getOAuthTokens().find(t => t.alias === alias);
+      if (!token) {
+        await send(`❌ Token \`${alias}\` not found.`);
+        return;
+      }
+      await send(`🔍 Checking \`${alias}\`...`);
+      const result = await checkOAuthToken(token.token, this.workingDirectory);
+      if (result.ok) {
+        this.sessionManager.clearTokenCooldown(alias);
+        await send(`🟢 \`${alias}\` works (${result.detail}).`);
+      } else {
+        if (result.cooldown) {
+          this.sessionManager.markTokenCooldown(alias, result.cooldown);
+        }
+        const retry = result.cooldown ? ` Skipped until <t:${Math.floor(result.cooldown.until.getTime() / 1000)}:R>.` : '';
+        await send(`🔴 \`${alias}\` failed: ${result.detail.substring(0, 500)}${retry}`);
+      }
+      return;
     }
-  }
 
-  private async handleHelpCommand(message: Message): Promise<void> {
-    await message.reply(
-      `**DM Commands:**\n` +
-      `• \`<8-char token>\` - Connect with session token\n` +
-      `• \`tokens\` - List OAuth tokens\n` +
-      `• \`use <alias>\` - Switch token\n` +
-      `• \`help\` - Show this help\n\n` +
+    if (!this.sessionManager.isAdmin(userId)) {
+      await send('❌ Only admins can add or remove tokens.');
+      return;
+    }
+
+    if (action === 'remove') {
+      switch (this.sessionManager.removeOAuthToken(alias)) {
+        case 'removed':
+          await send(`🗑️ Removed token \`${alias}\`. Users who selected it fall back to the default.`);
+          break;
+        case 'env':
+          await send(`❌ \`${alias}\` is set in \`.env\`; remove it there and restart.`);
+          break;
+        default:
+          await send(`❌ Token \`${alias}\` not found.`);
+      }
+      return;
+    }
+
+    if (!/^[a-z0-9_-]+$/.test(alias)) {
+      await send('❌ Aliases may only contain letters, digits, `-` and `_`.');
+      return;
+    }
+    switch (this.sessionManager.addOAuthToken(alias, secret!, userId)) {
+      case 'added':
+      case 'replaced':
+        await send(`✅ Token \`${alias}\` saved (encrypted). Switch to it with \`use ${alias}\` or check it with \`token check ${alias}\`.`);
+        break;
+      case 'env':
+        await send(`❌ \`${alias}\` is set in \`.env\`. Pick another alias.`);
+        break;
+      case 'no_store':
+        await send('❌ Tokens can\'t be stored: set `TOKEN_ENCRYPTION_KEY` and restart the bot.');
+        break;
+    }
+  }
+
+  private async handleUseTokenCommand(message: Message, alias: string): Promise<void> {
+    const token = this.sessionManager.getOAuthTokens().find(t => t.alias.toLowerCase() === alias.toLowerCase());
+    if (!token) {
+      const available = this.sessionManager.getOAuthTokens().map(t => `\`${t.alias}\``).join(', ');
+      await message.reply(`❌ Token \`${alias}\` not found.\n\nAvailable: ${available}`);
+      return;
+    }
+
+    const previous = this.sessionManager.getPreferredOAuthToken(message.author.id);
+    const success = this.sessionManager.setUserTokenPreference(message.author.id, token.alias);
+    if (success) {
+      this.auditLog.record({ action: 'token_switch', userId: message.author.id, fromAlias: previous?.alias, toAlias: token.alias });
+      await message.reply(`✅ Switched to token \`${token.alias}\``);
+    } else {
+      await message.reply(`❌ Failed to save token preference.`);
+    }
+  }
+
+  private async handleFallbackCommand(message: Message, args: string | undefined): Promise<void> {
+    const userId = message.author.id;
+    if (!args) {
+      const fallbacks = this.sessionManager.getUserSettings(userId)?.fallbackAliases || [];
+      await message.reply(fallbacks.length > 0
+        ? `🔁 Fallback order: ${fallbacks.map(a => `\`${a}\``).join(' → ')}`
+        : '🔁 No fallback tokens. Set them with `fallback <alias> ...`, tried in order while your token is rate limited.');
+      return;
+    }
+
+    const requested = args.trim().toLowerCase() === 'none' ? [] : args.trim().split(/[\s,]+/);
+    const aliases: string[] = [];
+    for (const name of requested) {
+      const token = this.sessionManager.getOAuthTokens().find(t => t.alias.toLowerCase() === name.toLowerCase());
+      if (!token) {
+        const available = this.sessionManager.getOAuthTokens().map(t => `\`${t.alias}\``).join(', ');
+        await message.reply(`❌ Token \`${name}\` not found.\n\nAvailable: ${available}`);
+        return;
+      }
+      if (!aliases.includes(token.alias)) aliases.push(token.alias);
+    }
+
+    if (!this.sessionManager.setUserFallbackAliases(userId, aliases)) {
+      await message.reply(`❌ Failed to save fallback tokens.`);
+      return;
+    }
+    await message.reply(aliases.length > 0
+      ? `✅ Fallback order: ${aliases.map(a => `\`${a}\``).join(' → ')}`
+      : '✅ Fallback tokens cleared.');
+  }
+
+  private async handleHelpCommand(message: Message): Promise<void> {
+    await message.reply(
+      `**DM Commands:**\n` +
+      `• \`<token>\` - Connect with session token\n` +
+      `• \`sessions\` - Show your link and channels\n` +
+      `• \`unlink\` - Disconnect your account\n` +
+      `• \`tokens\` - List OAuth tokens\n` +
+      `• \`use <alias>\` - Switch token\n` +
+      `• \`fallback <alias> ...\` - Tokens to try while yours is rate limited\n` +
+      `• \`token add|remove|check <alias>\` - Manage OAuth tokens (add and remove: admins)\n` +
+      `• \`invite\` - Create a session token for a new user (admins)\n` +
+      `• \`revoke <@user or token>\` - Unlink a user or cancel an invite (admins)\n` +
+      `• \`help\` - Show this help\n\n` +
       `**Channel Commands (slash):**\n` +
       `• \`/reset\` - New conversation\n` +
       `• \`/interrupt\` - Stop Claude (Ctrl+C)\n` +
       `• \`/compact\` - Compact context\n` +
+      `• \`/cwd\` - Set working directory\n` +
+      `• \`/share\` - Let another user talk to Claude in your channel\n` +
       `• \`/debug\` - Show terminal output`
     );
   }
@@ -378,11 +1074,21 @@ export class DiscordBot {
       return;
     }
 
+    if (lowerText === '!cwd' || lowerText.startsWith('!cwd ')) {
+      const requestedPath = text.trim().substring(4).trim();
+      const reply = requestedPath
+        ? await this.changeChannelWorkingDirectory(channelId, userId, requestedPath, message.channel as TextChannel)
+        : this.describeChannelWorkingDirectory(channelId);
+      await message.reply(reply);
+      return;
+    }
+
     if (lowerText === '!help') {
       await message.reply(
         `**Commands:**\n` +
         `• \`!interrupt\` / \`!stop\` - Stop Claude\n` +
         `• \`!reset\` / \`!new\` - New conversation\n` +
+        `• \`!cwd [path]\` - Show or set the working directory\n` +
         `• \`!debug\` - Show terminal output`
       );
       return;
@@ -405,27 +1111,67 @@ export class DiscordBot {
         await message.reply(`Failed to start Claude Code. Please try again.`);
         return;
       }
+    } else if (!this.sessionManager.canUseChannel(channelId, userId)) {
+      await message.reply(`🔒 This channel belongs to <@${channelSession.ownerId}>. Ask them to \`/share\` it with you.`);
+      return;
+    }
+
+    // Refuse new turns once a hard cap is reached
+    const exceeded = this.budgets.exceeded({ userId, channelId, tokenAlias: this.sessionManager.getOAuthTokenForUser(userId)?.alias });
+    if (exceeded.length > 0) {
+      console.log(`[Budget] Refused message from ${userId} in channel ${channelId}: ${exceeded.map(s => s.budget.id).join(', ')}`);
+      await message.reply(formatBudgetRefusal(exceeded));
+      return;
     }
 
     // Download attachments
     const downloadedFiles = await this.processAttachments(message, channelId);
 
-    // Build message with file info
-    let messageWithFiles = text;
-    if (downloadedFiles.length > 0) {
-      const fileList = downloadedFiles.map(f => `  - ${f}`).join('\n');
-      messageWithFiles = `${text}\n\n[Attached files saved to:\n${fileList}]`;
-    }
+    // In shared channels, tell Claude who is speaking
+    const speaker = channelSession.collaborators.length > 0
+      ? message.member?.displayName || message.author.username
+      : undefined;
 
-    // Queue message
-    this.queueMessage(channelId, userId, messageWithFiles);
+    if (channelSession.coalesceWindowMs) {
+      await this.coalesceMessage(channelId, userId, message, speaker, text, downloadedFiles, channelSession.coalesceWindowMs);
+      return;
+    }
 
     // Notify if busy
-    if (this.terminalManager.isChannelBusy(channelId)) {
+    if (this.terminalManager.isQueuePaused(channelId)) {
+      const queuePos = this.terminalManager.getQueueLength(channelId) + 1;
+      await message.reply(`⏸️ Queue is paused. Your message is queued (position ${queuePos}).`);
+    } else if (this.terminalManager.isChannelBusy(channelId)) {
       const queuePos = this.terminalManager.getQueueLength(channelId) + 1;
       await message.reply(`⏳ Claude is busy. Your message is queued (position ${queuePos}).`);
     }
 
+    await this.deliverPrompt(channelId, userId, this.formatPrompt(speaker, [text], downloadedFiles), message);
+  }
+
+  // Build the prompt text, listing saved attachments at the end
+  private formatPrompt(speaker: string | undefined, texts: string[], files: string[]): string {
+    let prompt = texts.join('\n\n');
+    if (speaker) {
+      prompt = `[From ${speaker}] ${prompt}`;
+    }
+    if (files.length > 0) {
+      const fileList = files.map(f => `  - ${f}`).join('\n');
+      prompt = `${prompt}\n\n[Attached files saved to:\n${fileList}]`;
+    }
+    return prompt;
+  }
+
+  // Send a prompt to the channel's terminal (queued if busy), respawning the terminal if it is gone
+  private async deliverPrompt(channelId: string, userId: string, prompt: string, message: Message): Promise<void> {
+    const channelSession = this.sessionManager.getChannelSession(channelId);
+    if (!channelSession) {
+      await message.reply(`Failed to start Claude Code. Please try again.`);
+      return;
+    }
+
+    this.auditLog.record({ action: 'prompt', channelId, userId, source: 'message', text: prompt });
+
     // Get user's OAuth token
     const userToken = this.sessionManager.getOAuthTokenForUser(userId);
 
@@ -433,7 +1179,7 @@ export class DiscordBot {
     this.startTypingIndicator(channelId);
 
     // Send to terminal
-    let success = await this.terminalManager.sendInput(channelSession.terminalId, messageWithFiles, userToken?.token);
+    let success = await this.terminalManager.sendInput(channelSession.terminalId, prompt, userToken, userId);
     if (!success) {
       // Respawn terminal
       console.log(`[Channel ${channelId}] Terminal not found, respawning...`);
@@ -441,7 +1187,7 @@ export class DiscordBot {
       await new Promise(resolve => setTimeout(resolve, 1000));
       const newSession = this.sessionManager.getChannelSession(channelId);
       if (newSession) {
-        success = await this.terminalManager.sendInput(newSession.terminalId, messageWithFiles, userToken?.token);
+        success = await this.terminalManager.sendInput(newSession.terminalId, prompt, userToken, userId);
       }
       if (!success) {
         this.stopTypingIndicator(channelId);
@@ -450,6 +1196,103 @@ export class DiscordBot {
     }
   }
 
+  // Merge messages from the same user that arrive within the window, or while their
+  // earlier message is still waiting in the queue, into one prompt
+  private async coalesceMessage(
+    channelId: string,
+    userId: string,
+    message: Message,
+    speaker: string | undefined,
+    text: string,
+    files: string[],
+    windowMs: number
+  ): Promise<void> {
+    let batch = this.coalescedPrompts.get(channelId);
+
+    // A batch that Claude already picked up (or that was removed from the queue) is closed
+    if (batch?.queueId !== undefined) {
+      const queue = this.terminalManager.listQueue(channelId);
+      if (queue[queue.length - 1]?.id !== batch.queueId) {
+        this.coalescedPrompts.delete(channelId);
+        batch = undefined;
+      }
+    }
+
+    // Another user's message ends the batch so prompts keep their order
+    if (batch && batch.userId !== userId) {
+      await this.flushCoalescedPrompt(channelId);
+      this.coalescedPrompts.delete(channelId);
+      batch = undefined;
+    }
+
+    if (batch) {
+      const earlier = batch.messages.map(m => m.url);
+      batch.messages.push(message);
+      batch.texts.push(text);
+      batch.files.push(...files);
+      if (batch.queueId !== undefined) {
+        this.terminalManager.updateQueued(channelId, batch.queueId, this.formatPrompt(batch.speaker, batch.texts, batch.files));
+        const queuePos = this.terminalManager.listQueue(channelId).findIndex(m => m.id === batch!.queueId) + 1;
+        console.log(`[Coalesce] Merged message into queued prompt #${batch.queueId} in channel ${channelId}`);
+        await message.reply(`⏳ Claude is busy. Your message is queued (position ${queuePos}), merged with ${earlier.join(', ')}.`);
+      } else {
+        this.startCoalesceTimer(channelId, batch, windowMs);
+        await message.react('📎').catch(() => {});
+      }
+      return;
+    }
+
+    batch = { userId, speaker, messages: [message], texts: [text], files: [...files] };
+    this.coalescedPrompts.set(channelId, batch);
+    if (this.terminalManager.isChannelBusy(channelId) || this.terminalManager.isQueuePaused(channelId)) {
+      // Goes straight to the queue; later messages are merged into it until Claude picks it up
+      await this.flushCoalescedPrompt(channelId);
+    } else {
+      this.startCoalesceTimer(channelId, batch, windowMs);
+    }
+  }
+
+  // Send a batch that is still collecting messages
+  private async flushCoalescedPrompt(channelId: string): Promise<void> {
+    const batch = this.coalescedPrompts.get(channelId);
+    if (!batch || batch.queueId !== undefined) {
+      return;
+    }
+    clearTimeout(batch.timer);
+    batch.timer = undefined;
+
+    const lastMessage = batch.messages[batch.messages.length - 1];
+    const earlier = batch.messages.slice(0, -1).map(m => m.url);
+    const paused = this.terminalManager.isQueuePaused(channelId);
+    const previousLastId = this.terminalManager.listQueue(channelId).at(-1)?.id;
+    if (earlier.length > 0) {
+      console.log(`[Coalesce] Sending ${batch.messages.length} merged messages in channel ${channelId}`);
+    }
+
+    // sendInput queues synchronously, so a queued batch is already the last entry when this returns
+    const delivery = this.deliverPrompt(channelId, batch.userId, this.formatPrompt(batch.speaker, batch.texts, batch.files), lastMessage);
+    const queue = this.terminalManager.listQueue(channelId);
+    const entry = queue.at(-1);
+    if (entry && entry.id !== previousLastId) {
+      batch.queueId = entry.id;
+      const merged = earlier.length > 0 ? `, merged with ${earlier.join(', ')}` : '';
+      await lastMessage.reply(`${paused ? '⏸️ Queue is paused' : '⏳ Claude is busy'}. Your message is queued (position ${queue.length})${merged}.`);
+    } else {
+      this.coalescedPrompts.delete(channelId);
+    }
+    await delivery;
+  }
+
+  // (Re)start the window after which a batch is sent
+  private startCoalesceTimer(channelId: string, batch: CoalescedPrompt, windowMs: number): void {
+    clearTimeout(batch.timer);
+    batch.timer = setTimeout(() => {
+      this.flushCoalescedPrompt(channelId).catch(error => {
+        console.error(`[Coalesce] Failed to send merged prompt in channel ${channelId}:`, error);
+      });
+    }, windowMs);
+  }
+
   private async handleSlashCommand(interaction: ChatInputCommandInteraction): Promise<void> {
     const channelId = interaction.channelId;
     const channelSession = this.sessionManager.getChannelSession(channelId);
@@ -460,10 +1303,43 @@ export class DiscordBot {
           await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
           return;
         }
+        if (!(await this.isChannelApprover(channelId, interaction.user.id))) {
+          console.log(`[Approvers] Rejected /reset in channel ${channelId} from unauthorized user ${interaction.user.id}`);
+          await interaction.reply({ content: '🚫 You are not allowed to reset this channel. See `/approvers show`.', ephemeral: true });
+          return;
+        }
+        await interaction.deferReply();
+        this.auditLog.record({ action: 'reset', channelId, userId: interaction.user.id });
+        // Archive the conversation before its session ID is forgotten
+        const resetArchive = this.exportChannelTranscript(channelId, (interaction.channel as TextChannel).name, 'md');
         this.terminalManager.resetConversation(channelId);
-        this.messageQueues.set(channelId, []);
         this.sessionAllowlists.delete(channelId);
-        await interaction.reply('🔄 Conversation reset. Next message starts fresh. Session allowlist cleared.');
+        this.saveApprovalState();
+        const resetWorktreeNote = await this.cleanupChannelWorktree(channelId);
+        await interaction.editReply({
+          content: '🔄 Conversation reset. Next message starts fresh. Session allowlist cleared.' + resetWorktreeNote + this.describeArchive(resetArchive),
+          files: this.transcriptFiles(resetArchive),
+        });
+        break;
+
+      case 'worktree':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
+          return;
+        }
+        if (!this.worktreeManager) {
+          await interaction.reply({ content: 'Worktree mode is disabled. Set `WORKTREE_MODE=true` to enable it.', ephemeral: true });
+          return;
+        }
+        const worktreeSubcommand = interaction.options.getSubcommand();
+        // merge writes to the owner's main checkout; discard deletes unmerged work
+        if (worktreeSubcommand !== 'status' && !(await this.isChannelApprover(channelId, interaction.user.id))) {
+          console.log(`[Approvers] Rejected /worktree ${worktreeSubcommand} in channel ${channelId} from unauthorized user ${interaction.user.id}`);
+          await interaction.reply({ content: `🚫 You are not allowed to ${worktreeSubcommand} this channel's worktree. See \`/approvers show\`.`, ephemeral: true });
+          return;
+        }
+        await interaction.deferReply();
+        await interaction.editReply(await this.handleWorktreeCommand(channelId, worktreeSubcommand));
         break;
 
       case 'interrupt':
@@ -471,10 +1347,21 @@ export class DiscordBot {
           await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
           return;
         }
+        if (!(await this.isChannelApprover(channelId, interaction.user.id))) {
+          console.log(`[Approvers] Rejected /interrupt in channel ${channelId} from unauthorized user ${interaction.user.id}`);
+          await interaction.reply({ content: '🚫 You are not allowed to interrupt Claude in this channel. See `/approvers show`.', ephemeral: true });
+          return;
+        }
         this.terminalManager.sendInterrupt(channelSession.terminalId);
-        this.terminalManager.clearBusyState(channelId);
-        this.messageQueues.set(channelId, []);
-        await interaction.reply('⏹️ Interrupted Claude and cleared queue.');
+        this.auditLog.record({ action: 'interrupt', channelId, userId: interaction.user.id });
+        if (interaction.options.getBoolean('keep_queue')) {
+          // The next queued prompt starts once the interrupted turn exits
+          const kept = this.terminalManager.getQueueLength(channelId);
+          await interaction.reply(`⏹️ Interrupted Claude. Kept ${kept} queued prompt${kept === 1 ? '' : 's'}.`);
+        } else {
+          this.terminalManager.clearBusyState(channelId);
+          await interaction.reply('⏹️ Interrupted Claude and cleared queue.');
+        }
         break;
 
       case 'compact':
@@ -483,7 +1370,7 @@ export class DiscordBot {
           return;
         }
         const userToken = this.sessionManager.getOAuthTokenForUser(interaction.user.id);
-        await this.terminalManager.sendInput(channelSession.terminalId, '/compact', userToken?.token);
+        await this.terminalManager.sendInput(channelSession.terminalId, '/compact', userToken, interaction.user.id);
         await interaction.reply('📦 Sent /compact to Claude Code...');
         break;
 
@@ -493,7 +1380,7 @@ export class DiscordBot {
           return;
         }
         const output = this.terminalManager.getOutput(channelSession.terminalId, 30);
-        const outputText = output.join('').slice(-1800);
+        const outputText = redact(output.join('')).slice(-1800);
         await interaction.reply({ content: `📟 Terminal output:\n\`\`\`\n${outputText || '(no output)'}\n\`\`\``, ephemeral: true });
         break;
 
@@ -518,6 +1405,104 @@ export class DiscordBot {
         );
         break;
 
+      case 'usage':
+        await this.handleUsageCommand(interaction);
+        break;
+
+      case 'budget':
+        await interaction.reply(this.handleBudgetCommand(interaction));
+        break;
+
+      case 'audit':
+        await this.handleAuditCommand(interaction);
+        break;
+
+      case 'sessions':
+        await interaction.reply(this.describeSessionHistory(channelId));
+        break;
+
+      case 'resume':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(await this.handleResumeCommand(interaction));
+        break;
+
+      case 'attach':
+      case 'detach':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(interaction.commandName === 'attach'
+          ? await this.handleAttachCommand(interaction)
+          : await this.handleDetachCommand(interaction));
+        break;
+
+      case 'export':
+        const exportFormat = (interaction.options.getString('format') || 'md') as TranscriptFormat;
+        if (!this.terminalManager.getSessionId(channelId)) {
+          await interaction.reply({ content: 'No conversation to export yet.', ephemeral: true });
+          return;
+        }
+        await interaction.deferReply();
+        const transcript = this.exportChannelTranscript(channelId, (interaction.channel as TextChannel).name, exportFormat);
+        if (!transcript) {
+          await interaction.editReply('❌ Could not find this conversation\'s session file. Is `CLAUDE_CONFIG_DIR` the same as for the bot\'s Claude Code?');
+        } else if (this.transcriptFiles(transcript).length === 0) {
+          await interaction.editReply(`❌ The transcript is ${(Buffer.byteLength(transcript.content) / 1024 / 1024).toFixed(1)} MB, over Discord's upload limit. Try \`format:md\`, which shortens tool results.`);
+        } else {
+          await interaction.editReply({
+            content: `📜 Transcript of this conversation (${transcript.messages} messages).`,
+            files: this.transcriptFiles(transcript),
+          });
+        }
+        break;
+
+      case 'cwd':
+        const requestedPath = interaction.options.getString('path');
+        if (!requestedPath) {
+          await interaction.reply(this.describeChannelWorkingDirectory(channelId));
+        } else {
+          await interaction.deferReply();
+          const reply = await this.changeChannelWorkingDirectory(
+            channelId, interaction.user.id, requestedPath, interaction.channel as TextChannel
+          );
+          await interaction.editReply(reply);
+        }
+        break;
+
+      case 'permissions':
+        const permissionsSubcommand = interaction.options.getSubcommand();
+        if (permissionsSubcommand !== 'list' && !(await this.isChannelApprover(channelId, interaction.user.id))) {
+          console.log(`[Approvers] Rejected /permissions ${permissionsSubcommand} in channel ${channelId} from unauthorized user ${interaction.user.id}`);
+          await interaction.reply({ content: '🚫 You are not allowed to change approval rules in this channel. See `/approvers show`.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(this.handlePermissionsCommand(
+          channelId,
+          permissionsSubcommand,
+          interaction.options.getString('rule'),
+          interaction.options.getInteger('minutes')
+        ));
+        break;
+
+      case 'output':
+        const mode = interaction.options.getString('mode') as OutputMode | null;
+        if (!mode) {
+          const currentMode = this.terminalManager.getChannelOutputMode(channelId);
+          await interaction.reply(
+            `📡 **Current output mode:** \`${currentMode}\`\n\n` +
+            `• \`stream-json\` - live progress message updated as Claude works\n` +
+            `• \`json\` - only the final result`
+          );
+        } else {
+          this.terminalManager.setChannelOutputMode(channelId, mode);
+          await interaction.reply(`✅ Output mode set to \`${mode}\` for this channel.\n\nNote: Takes effect on next message.`);
+        }
+        break;
+
       case 'model':
         const modelName = interaction.options.getString('name');
         if (!modelName) {
@@ -534,55 +1519,922 @@ export class DiscordBot {
         } else {
           // Set model
           this.terminalManager.setChannelModel(channelId, modelName);
+          this.auditLog.record({ action: 'model', channelId, userId: interaction.user.id, model: modelName });
           await interaction.reply(`✅ Model set to \`${modelName}\` for this channel.\n\nNote: Takes effect on next message.`);
         }
         break;
 
-      default:
-        await interaction.reply({ content: 'Unknown command', ephemeral: true });
+      case 'approvers':
+        await interaction.reply(await this.handleApproversCommand(interaction));
+        break;
+
+      case 'queue':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(await this.handleQueueCommand(interaction));
+        break;
+
+      case 'coalesce':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel. Send a message first to start Claude Code.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(this.handleCoalesceCommand(interaction));
+        break;
+
+      case 'schedule':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel. Send a message first to start Claude Code.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(this.handleScheduleCommand(interaction));
+        break;
+
+      case 'share':
+      case 'unshare':
+        if (!channelSession) {
+          await interaction.reply({ content: 'No active session in this channel.', ephemeral: true });
+          return;
+        }
+        await interaction.reply(this.handleShareCommand(
+          channelId,
+          interaction.user.id,
+          interaction.options.getUser('user', true).id,
+          interaction.commandName === 'share'
+        ));
+        break;
+
+      default:
+        await interaction.reply({ content: 'Unknown command', ephemeral: true });
+    }
+  }
+
+  private async handleInterrupt(message: Message): Promise<void> {
+    const channelSession = this.sessionManager.getChannelSession(message.channel.id);
+    if (!channelSession) {
+      await message.reply('No active session in this channel.');
+      return;
+    }
+    if (!(await this.isChannelApprover(message.channel.id, message.author.id))) {
+      console.log(`[Approvers] Rejected !interrupt in channel ${message.channel.id} from unauthorized user ${message.author.id}`);
+      await message.reply('🚫 You are not allowed to interrupt Claude in this channel.');
+      return;
+    }
+    this.terminalManager.sendInterrupt(channelSession.terminalId);
+    this.auditLog.record({ action: 'interrupt', channelId: message.channel.id, userId: message.author.id });
+    this.terminalManager.clearBusyState(message.channel.id);
+    await message.reply('⏹️ Interrupted Claude and cleared queue.');
+  }
+
+  private async handleReset(message: Message): Promise<void> {
+    const channelSession = this.sessionManager.getChannelSession(message.channel.id);
+    if (!channelSession) {
+      await message.reply('No active session in this channel.');
+      return;
+    }
+    if (!(await this.isChannelApprover(message.channel.id, message.author.id))) {
+      console.log(`[Approvers] Rejected !reset in channel ${message.channel.id} from unauthorized user ${message.author.id}`);
+      await message.reply('🚫 You are not allowed to reset this channel.');
+      return;
+    }
+    this.auditLog.record({ action: 'reset', channelId: message.channel.id, userId: message.author.id });
+    const archive = this.exportChannelTranscript(message.channel.id, (message.channel as TextChannel).name, 'md');
+    this.terminalManager.resetConversation(message.channel.id);
+    this.sessionAllowlists.delete(message.channel.id);
+    this.saveApprovalState();
+    const worktreeNote = await this.cleanupChannelWorktree(message.channel.id);
+    await message.reply({
+      content: '🔄 Conversation reset. Next message starts fresh. Session allowlist cleared.' + worktreeNote + this.describeArchive(archive),
+      files: this.transcriptFiles(archive),
+    });
+  }
+
+  private describeSessionHistory(channelId: string): string {
+    const history = this.terminalManager.getSessionHistory(channelId);
+    if (history.length === 0) {
+      return '🗂️ No conversations yet in this channel.';
+    }
+    const currentId = this.terminalManager.getSessionId(channelId);
+    const lines = history.slice(0, 10).map(record => {
+      const started = `<t:${Math.floor(new Date(record.startedAt).getTime() / 1000)}:R>`;
+      const active = `<t:${Math.floor(new Date(record.lastActiveAt).getTime() / 1000)}:R>`;
+      const marker = record.sessionId === currentId ? '▶️' : '•';
+      const preview = record.lastPrompt ? `\n   > ${record.lastPrompt}` : '';
+      return `${marker} \`${record.sessionId.substring(0, 8)}\` — ${record.turns} turn${record.turns === 1 ? '' : 's'}, started ${started}, last active ${active}${preview}`;
+    });
+    const more = history.length > 10 ? `\n…and ${history.length - 10} older` : '';
+    return `🗂️ **Conversations in this channel** (▶️ current):\n${lines.join('\n')}${more}\n\nTo switch back: \`/resume session:<id>\``;
+  }
+
+  // Approvers switch the channel back to an earlier conversation
+  private async handleResumeCommand(interaction: ChatInputCommandInteraction): Promise<string> {
+    const channelId = interaction.channelId;
+    const userId = interaction.user.id;
+    if (!(await this.isChannelApprover(channelId, userId))) {
+      console.log(`[Approvers] Rejected /resume in channel ${channelId} from unauthorized user ${userId}`);
+      return '🚫 You are not allowed to switch conversations in this channel. See `/approvers show`.';
+    }
+    if (this.terminalManager.isChannelBusy(channelId)) {
+      return '⏳ Claude is busy. Wait for the current turn to finish (or `/interrupt`) before switching conversations.';
+    }
+
+    const result = this.terminalManager.resumeSession(channelId, interaction.options.getString('session', true));
+    if (result === 'not_found') {
+      return '❌ No such conversation in this channel. See `/sessions`.';
+    }
+    if (result === 'ambiguous') {
+      return '❌ Several conversations start with that ID. Pick one from the autocomplete list.';
+    }
+    if (result === 'wrong_cwd') {
+      return '❌ That conversation ran in another working directory; Claude Code can only resume it from there.';
+    }
+
+    this.auditLog.record({ action: 'resume', channelId, userId, sessionId: result.sessionId });
+    // Session rules belong to the conversation they were granted in
+    this.sessionAllowlists.delete(channelId);
+    this.saveApprovalState();
+    return `⏪ Switched to conversation \`${result.sessionId.substring(0, 8)}\` ` +
+      `(${result.turns} turn${result.turns === 1 ? '' : 's'}, started <t:${Math.floor(new Date(result.startedAt).getTime() / 1000)}:R>). ` +
+      'Next message continues it. Session allowlist cleared.';
+  }
+
+  // Directory the channel's Claude runs in; the CLI files sessions by it
+  private channelCliCwd(channelId: string): string {
+    return this.terminalManager.getTerminalByChannelId(channelId)?.cwd
+      || this.sessionManager.getChannelSession(channelId)?.workingDirectory
+      || this.workingDirectory;
+  }
+
+  // Without a session: list the CLI's sessions for this directory. With one: continue it here.
+  private async handleAttachCommand(interaction: ChatInputCommandInteraction): Promise<string> {
+    const channelId = interaction.channelId;
+    const userId = interaction.user.id;
+    const cwd = this.channelCliCwd(channelId);
+    const sessionId = interaction.options.getString('session')?.trim();
+
+    if (!sessionId) {
+      const sessions = listCliSessions(cwd, 10);
+      if (sessions.length === 0) {
+        return `🗂️ No Claude Code sessions found for \`${cwd}\`. Start one there with \`claude\` first.`;
+      }
+      const currentId = this.terminalManager.getSessionId(channelId);
+      const lines = sessions.map(s => {
+        const summary = s.summary.length > 120 ? s.summary.substring(0, 117) + '...' : s.summary;
+        return `${s.sessionId === currentId ? '▶️' : '•'} \`${s.sessionId}\` — <t:${Math.floor(s.modifiedAt.getTime() / 1000)}:R>\n   > ${summary}`;
+      });
+      return `🗂️ **Claude Code sessions in \`${cwd}\`** (▶️ this channel's):\n${lines.join('\n')}\n\nTo continue one here: \`/attach session:<id>\``;
+    }
+
+    if (!(await this.isChannelApprover(channelId, userId))) {
+      console.log(`[Approvers] Rejected /attach in channel ${channelId} from unauthorized user ${userId}`);
+      return '🚫 You are not allowed to switch conversations in this channel. See `/approvers show`.';
+    }
+    if (this.terminalManager.isChannelBusy(channelId)) {
+      return '⏳ Claude is busy. Wait for the current turn to finish (or `/interrupt`) before attaching another conversation.';
+    }
+    if (!cliSessionExists(sessionId, cwd)) {
+      return `❌ No Claude Code session \`${sessionId}\` in \`${cwd}\`. Run \`/attach\` without a session to list them.`;
+    }
+
+    this.terminalManager.attachSession(channelId, sessionId, cwd);
+    this.auditLog.record({ action: 'attach', channelId, userId, sessionId });
+    this.sessionAllowlists.delete(channelId);
+    this.saveApprovalState();
+    return `📎 Attached conversation \`${sessionId.substring(0, 8)}\`. Next message continues it. Session allowlist cleared.\n` +
+      'Don\'t keep using it in the terminal at the same time; `/detach` hands it back.';
+  }
+
+  // Let go of the channel's conversation and show how to continue it in a terminal
+  private async handleDetachCommand(interaction: ChatInputCommandInteraction): Promise<string> {
+    const channelId = interaction.channelId;
+    const userId = interaction.user.id;
+    if (!(await this.isChannelApprover(channelId, userId))) {
+      console.log(`[Approvers] Rejected /detach in channel ${channelId} from unauthorized user ${userId}`);
+      return '🚫 You are not allowed to switch conversations in this channel. See `/approvers show`.';
+    }
+    const sessionId = this.terminalManager.getSessionId(channelId);
+    if (!sessionId) {
+      return 'No conversation to detach yet.';
+    }
+    if (this.terminalManager.isChannelBusy(channelId)) {
+      return '⏳ Claude is busy. Wait for the current turn to finish (or `/interrupt`) before detaching.';
+    }
+
+    const cwd = this.channelCliCwd(channelId);
+    this.terminalManager.resetConversation(channelId);
+    this.auditLog.record({ action: 'detach', channelId, userId, sessionId });
+    this.sessionAllowlists.delete(channelId);
+    this.saveApprovalState();
+    return `🔌 Detached conversation \`${sessionId}\`. Next message here starts fresh; \`/resume\` brings it back.\n` +
+      `Continue in a terminal:\n\`\`\`\ncd '${cwd.replace(/'/g, `'\\''`)}' && claude --resume ${sessionId}\n\`\`\``;
+  }
+
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      const query = interaction.options.getFocused().toLowerCase();
+      if (interaction.commandName === 'attach') {
+        const choices = listCliSessions(this.channelCliCwd(interaction.channelId))
+          .filter(s => !query || s.sessionId.startsWith(query) || s.summary.toLowerCase().includes(query))
+          .map(s => {
+            const name = `${s.sessionId.substring(0, 8)} · ${s.modifiedAt.toISOString().slice(0, 16).replace('T', ' ')} · ${s.summary}`;
+            return { name: name.length > 100 ? name.substring(0, 97) + '...' : name, value: s.sessionId };
+          });
+        await interaction.respond(choices);
+        return;
+      }
+      if (interaction.commandName !== 'resume') {
+        await interaction.respond([]);
+        return;
+      }
+      const choices = this.terminalManager.getSessionHistory(interaction.channelId)
+        .filter(r => !query || r.sessionId.startsWith(query) || r.lastPrompt?.toLowerCase().includes(query))
+        .slice(0, 25)
+        .map(r => {
+          const name = `${r.sessionId.substring(0, 8)} · ${r.turns} turn${r.turns === 1 ? '' : 's'} · ${r.lastPrompt || 'no prompt yet'}`;
+          return { name: name.length > 100 ? name.substring(0, 97) + '...' : name, value: r.sessionId };
+        });
+      await interaction.respond(choices);
+    } catch (error) {
+      console.error('[Autocomplete] Failed to respond:', error);
+    }
+  }
+
+  // Transcript of the channel's current Claude session; undefined before the first turn or if the file is gone
+  private exportChannelTranscript(channelId: string, channelName: string, format: TranscriptFormat): TranscriptExport | undefined {
+    const sessionId = this.terminalManager.getSessionId(channelId);
+    if (!sessionId) return undefined;
+    try {
+      return exportTranscript(sessionId, this.terminalManager.getTerminalByChannelId(channelId)?.cwd, format, `#${channelName}`);
+    } catch (error) {
+      console.error(`[Export] Failed to export session ${sessionId} of channel ${channelId}:`, error);
+      return undefined;
+    }
+  }
+
+  private transcriptFiles(transcript: TranscriptExport | undefined): { attachment: Buffer; name: string }[] {
+    if (!transcript || Buffer.byteLength(transcript.content) > MAX_ATTACHMENT_BYTES) return [];
+    return [{ attachment: Buffer.from(transcript.content, 'utf-8'), name: transcript.name }];
+  }
+
+  private describeArchive(transcript: TranscriptExport | undefined): string {
+    if (!transcript) return '';
+    if (this.transcriptFiles(transcript).length === 0) {
+      return '\n⚠️ The previous conversation is too large to upload; it is still in the Claude session files.';
+    }
+    return `\n📜 Previous conversation archived (${transcript.messages} messages).`;
+  }
+
+  private async handleWorktreeCommand(channelId: string, subcommand: string): Promise<string> {
+    const worktree = this.sessionManager.getChannelSession(channelId)?.worktree;
+    if (!worktree || !this.worktreeManager!.exists(worktree)) {
+      return 'This channel has no worktree. One is created when Claude Code starts in a git repository.';
+    }
+
+    try {
+      switch (subcommand) {
+        case 'status': {
+          const uncommitted = await this.worktreeManager!.getUncommittedChanges(worktree);
+          const unmerged = await this.worktreeManager!.getUnmergedCommits(worktree);
+          let reply = `🌿 **Worktree:** \`${worktree.path}\`\n` +
+            `**Branch:** \`${worktree.branch}\` (base \`${worktree.baseBranch}\`)\n` +
+            `**Commits ahead:** ${unmerged.length}\n` +
+            `**Uncommitted changes:** ${uncommitted.length}`;
+          const details = [...unmerged.slice(0, 10), ...uncommitted.slice(0, 10)].join('\n');
+          if (details) {
+            reply += `\n\`\`\`\n${details.slice(0, 1500)}\n\`\`\``;
+          }
+          return reply;
+        }
+
+        case 'merge':
+          return `✅ ${await this.worktreeManager!.merge(worktree)}`;
+
+        case 'discard':
+          // Stop Claude first so nothing writes into the worktree while it is removed
+          this.terminalManager.killByChannelId(channelId);
+          this.terminalManager.resetConversation(channelId);
+          this.stopTypingIndicator(channelId);
+          await this.worktreeManager!.remove(worktree);
+          this.sessionManager.setChannelWorktree(channelId, undefined);
+          return `🗑️ Discarded worktree and branch \`${worktree.branch}\`. Next message starts fresh in a new worktree.`;
+
+        default:
+          return 'Unknown worktree command.';
+      }
+    } catch (error: any) {
+      console.error(`[Worktree] ${subcommand} failed for channel ${channelId}:`, error);
+      return `❌ Worktree ${subcommand} failed: ${error.message}`;
+    }
+  }
+
+  // Apply the worktree cleanup policy; returns a note for the reply (empty if nothing happened)
+  private async cleanupChannelWorktree(channelId: string): Promise<string> {
+    const worktree = this.sessionManager.getChannelSession(channelId)?.worktree;
+    if (!this.worktreeManager || !worktree) return '';
+
+    try {
+      if (!await this.worktreeManager.cleanup(worktree)) {
+        return `\nWorktree \`${worktree.branch}\` kept (cleanup policy: \`${this.worktreeManager.getCleanupPolicy()}\`).`;
+      }
+      // Terminal was running inside the removed directory; the next message respawns it in a new worktree
+      this.terminalManager.killByChannelId(channelId);
+      this.sessionManager.setChannelWorktree(channelId, undefined);
+      return `\nWorktree \`${worktree.branch}\` removed.`;
+    } catch (error: any) {
+      console.error(`[Worktree] Cleanup failed for channel ${channelId}:`, error);
+      return `\n⚠️ Worktree cleanup failed: ${error.message}`;
+    }
+  }
+
+  // Directory Claude runs in: the channel's worktree if worktree mode applies, else its working directory
+  private async resolveChannelCwd(channelId: string, channel: TextChannel): Promise<string> {
+    const channelSession = this.sessionManager.getChannelSession(channelId);
+    const baseCwd = channelSession?.workingDirectory || this.workingDirectory;
+    if (!this.worktreeManager) return baseCwd;
+
+    const repoRoot = await this.worktreeManager.findRepoRoot(baseCwd);
+    if (!repoRoot) {
+      console.log(`[Worktree] ${baseCwd} is not in a git repository, using it directly`);
+      return baseCwd;
+    }
+
+    let worktree = channelSession?.worktree;
+    // Drop the record if the channel was moved to another repo with /cwd
+    if (worktree && worktree.repoRoot !== repoRoot) {
+      await this.cleanupChannelWorktree(channelId);
+      worktree = undefined;
+    }
+
+    try {
+      if (!worktree || !this.worktreeManager.exists(worktree)) {
+        worktree = await this.worktreeManager.create(repoRoot, channel.name, channelId);
+        this.sessionManager.setChannelWorktree(channelId, worktree);
+      }
+    } catch (error) {
+      console.error(`[Worktree] Failed to create worktree for channel ${channelId}:`, error);
+      await channel.send(`⚠️ Could not create a git worktree, running in \`${baseCwd}\` instead.`);
+      return baseCwd;
+    }
+
+    // Keep the same subdirectory when the channel cwd is inside the repo
+    return path.join(worktree.path, path.relative(repoRoot, baseCwd));
+  }
+
+  private async handleDebug(message: Message): Promise<void> {
+    const channelSession = this.sessionManager.getChannelSession(message.channel.id);
+    if (!channelSession) {
+      await message.reply('No active session in this channel.');
+      return;
+    }
+    const output = this.terminalManager.getOutput(channelSession.terminalId, 30);
+    const outputText = redact(output.join('')).slice(-1800);
+    await message.reply(`📟 Terminal output:\n\`\`\`\n${outputText || '(no output)'}\n\`\`\``);
+  }
+
+  private handlePermissionsCommand(channelId: string, subcommand: string, ruleArg: string | null, minutes: number | null): string {
+    const rules = Array.from(this.sessionAllowlists.get(channelId) || []);
+
+    if (subcommand === 'list') {
+      if (rules.length === 0) {
+        return '🔐 No session approval rules in this channel. Tools ask for approval every time.';
+      }
+      return `🔐 **Session approval rules:**\n` +
+        rules.map((rule, i) => `${i + 1}. \`${rule}\``).join('\n') +
+        `\n\nTo remove: \`/permissions revoke rule:<rule or number>\``;
+    }
+
+    if (subcommand === 'revoke') {
+      const wanted = (ruleArg || '').trim();
+      // Accept either the rule text or its number from /permissions list
+      const index = /^\d+$/.test(wanted) ? parseInt(wanted, 10) - 1 : rules.indexOf(wanted);
+      const rule = rules[index];
+      if (!rule) {
+        return `❌ No rule \`${wanted}\` in this channel. See \`/permissions list\`.`;
+      }
+      this.sessionAllowlists.get(channelId)!.delete(rule);
+      this.saveApprovalState();
+      console.log(`[Approval] Revoked rule ${rule} in channel ${channelId}`);
+      return `🗑️ Revoked \`${rule}\`. Matching tool calls will ask for approval again.`;
+    }
+
+    if (subcommand === 'timeout') {
+      const channelSession = this.sessionManager.getChannelSession(channelId);
+      const defaultMinutes = this.terminalManager.getDefaultApprovalTimeout() / 60000;
+      if (minutes === null) {
+        const current = channelSession?.approvalTimeoutMs;
+        return `⏳ **Approval timeout:** ${current ? `${current / 60000} min` : `${defaultMinutes} min (default)`}\n\n` +
+          `Unanswered requests are auto-denied. To change: \`/permissions timeout minutes:<1-60>\` (0 restores the default)`;
+      }
+      if (!channelSession) {
+        return 'No active session in this channel.';
+      }
+      const timeoutMs = minutes > 0 ? minutes * 60000 : undefined;
+      this.sessionManager.setChannelApprovalTimeout(channelId, timeoutMs);
+      this.terminalManager.setChannelApprovalTimeout(channelId, timeoutMs);
+      console.log(`[Approval] Timeout for channel ${channelId} set to ${timeoutMs ? `${minutes} min` : 'default'}`);
+      return `⏳ Approval timeout set to ${timeoutMs ? `${minutes} min` : `${defaultMinutes} min (default)`}. Applies from the next message.`;
+    }
+
+    return 'Unknown permissions command.';
+  }
+
+  // Admins see every channel; everyone else sees only their own turns
+  private async handleUsageCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const userId = interaction.user.id;
+    const isAdmin = this.sessionManager.isAdmin(userId);
+    const filter = isAdmin ? undefined : (e: { userId?: string }) => e.userId === userId;
+    const period = (interaction.options.getString('period') || 'week') as UsagePeriod;
+    const periodLabel = { today: 'today', week: 'last 7 days', all: 'all time' }[period];
+    const entries = this.usageLedger.getEntries(periodStart(period), filter);
+
+    if (interaction.options.getSubcommand() === 'export') {
+      const format = interaction.options.getString('format') || 'csv';
+      const content = format === 'json' ? JSON.stringify(entries, null, 2) : usageToCsv(entries);
+      await interaction.reply({
+        content: `📊 ${entries.length} turn${entries.length === 1 ? '' : 's'} (${periodLabel}${isAdmin ? '' : ', your usage only'}).`,
+        files: [{ attachment: Buffer.from(content, 'utf-8'), name: `usage-${period}.${format}` }],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const formatTotals = (t: UsageTotals): string =>
+      `$${t.costUsd.toFixed(2)} · ${t.turns} turn${t.turns === 1 ? '' : 's'} · ` +
+      `${formatTokenCount(t.inputTokens)} in / ${formatTokenCount(t.outputTokens)} out`;
+    const formatGroup = (title: string, groups: [string, UsageTotals][]): string => {
+      if (groups.length === 0) return '';
+      const lines = groups.slice(0, 5).map(([key, t]) => `• ${key} — ${formatTotals(t)}`);
+      const more = groups.length > 5 ? `\n…and ${groups.length - 5} more` : '';
+      return `\n\n**By ${title} (${periodLabel}):**\n${lines.join('\n')}${more}`;
+    };
+
+    let reply = `📊 **Usage${isAdmin ? '' : ' (yours)'}:**\n` +
+      `• Today: ${formatTotals(sumUsage(this.usageLedger.getEntries(periodStart('today'), filter)))}\n` +
+      `• Last 7 days: ${formatTotals(sumUsage(this.usageLedger.getEntries(periodStart('week'), filter)))}\n` +
+      `• All time: ${formatTotals(sumUsage(this.usageLedger.getEntries(undefined, filter)))}`;
+    reply += formatGroup('channel', groupUsage(entries, e => `<#${e.channelId}>`));
+    if (isAdmin) {
+      reply += formatGroup('user', groupUsage(entries, e => e.userId ? `<@${e.userId}>` : 'internal'));
+    }
+    reply += formatGroup('token', groupUsage(entries, e => `\`${e.tokenAlias || 'default'}\``));
+    await interaction.reply({ content: reply, ephemeral: true });
+  }
+
+  // Admins only: entries include every user's prompts and tool inputs
+  private async handleAuditCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (!this.sessionManager.isAdmin(interaction.user.id)) {
+      await interaction.reply({ content: '🚫 Only admins can read the audit log.', ephemeral: true });
+      return;
+    }
+
+    const channel = interaction.options.getChannel('channel');
+    const user = interaction.options.getUser('user');
+    const tool = interaction.options.getString('tool')?.trim() || undefined;
+    const period = (interaction.options.getString('period') || 'week') as UsagePeriod;
+    const entries = this.auditLog.query({ since: periodStart(period), channelId: channel?.id, userId: user?.id, tool });
+
+    const filters = [
+      channel ? `<#${channel.id}>` : '',
+      user ? `<@${user.id}>` : '',
+      tool ? `tool \`${tool}\`` : '',
+      { today: 'today', week: 'last 7 days', all: 'all time' }[period],
+    ].filter(Boolean).join(', ');
+    if (entries.length === 0) {
+      await interaction.reply({ content: `📜 No audit entries (${filters}).`, ephemeral: true });
+      return;
+    }
+    await interaction.reply({
+      content: `📜 ${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'} (${filters}).`,
+      files: [{ attachment: Buffer.from(entries.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf-8'), name: `audit-${period}.jsonl` }],
+      ephemeral: true,
+    });
+  }
+
+  private handleBudgetCommand(interaction: ChatInputCommandInteraction): string {
+    const userId = interaction.user.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+      const budgets = this.budgets.list();
+      if (budgets.length === 0) {
+        return '💰 No budgets set. Admins can add one with `/budget user`, `/budget channel` or `/budget alias`.';
+      }
+      const lines = budgets.map(b => {
+        const status = this.budgets.status(b);
+        return `• \`${b.id}\` ${describeBudget(b)} — used ${formatBudgetAmount(b.metric, status.used)} (${usedPercent(status)}%), ` +
+          `warns at ${b.warnPercent}%, resets <t:${Math.floor(status.resetsAt.getTime() / 1000)}:R>`;
+      });
+      return `💰 **Budgets:**\n${lines.join('\n')}\n\nTo remove: \`/budget remove id:<id>\``;
+    }
+
+    if (!this.sessionManager.isAdmin(userId)) {
+      return '🚫 Only admins can change budgets.';
+    }
+
+    if (subcommand === 'remove') {
+      const id = interaction.options.getString('id', true).trim();
+      if (!this.budgets.remove(id)) {
+        return `❌ No budget \`${id}\`. See \`/budget list\`.`;
+      }
+      console.log(`[Budget] ${userId} removed ${id}`);
+      return `🗑️ Budget \`${id}\` removed.`;
+    }
+
+    const scope = subcommand as 'user' | 'channel' | 'alias';
+    const targetId = scope === 'user' ? interaction.options.getUser('user', true).id
+      : scope === 'channel' ? (interaction.options.getChannel('channel')?.id || interaction.channelId)
+      : interaction.options.getString('alias', true).trim();
+    const period = interaction.options.getString('period', true) as 'daily' | 'monthly';
+    const metric = interaction.options.getString('metric', true) as 'cost' | 'output_tokens';
+    const limit = interaction.options.getNumber('limit', true);
+    const warnPercent = interaction.options.getInteger('warn_percent') ?? 80;
+
+    const budget = this.budgets.set(scope, targetId, period, metric, limit, warnPercent, userId);
+    const status = this.budgets.status(budget);
+    console.log(`[Budget] ${userId} set ${budget.id}: ${scope} ${targetId} ${period} ${metric} ${limit}`);
+    return `💰 Budget \`${budget.id}\` set: ${describeBudget(budget)}, warning at ${warnPercent}%. ` +
+      `Used so far: ${formatBudgetAmount(metric, status.used)}.`;
+  }
+
+  // Post a soft warning once per period for each budget the finished turn pushed past its threshold
+  private async sendBudgetWarnings(channelId: string, userId: string | undefined, tokenAlias: string | undefined): Promise<void> {
+    const warnings = this.budgets.takeWarnings({ userId: userId || '', channelId, tokenAlias });
+    if (warnings.length === 0) return;
+    const lines = warnings.map(s =>
+      `• ${describeBudget(s.budget)}: ${formatBudgetAmount(s.budget.metric, s.used)} used ` +
+      `(${usedPercent(s)}%), resets <t:${Math.floor(s.resetsAt.getTime() / 1000)}:R>`
+    );
+    try {
+      const channel = await this.client.channels.fetch(channelId) as TextChannel;
+      await channel.send(`⚠️ **Budget warning:**\n${lines.join('\n')}\n\nNew messages are refused once a budget is used up.`);
+    } catch (error) {
+      console.error(`[Budget] Failed to send warning to channel ${channelId}:`, error);
+    }
+  }
+
+  private async handleQueueCommand(interaction: ChatInputCommandInteraction): Promise<string> {
+    const channelId = interaction.channelId;
+    const userId = interaction.user.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+      const queue = this.terminalManager.listQueue(channelId);
+      const paused = this.terminalManager.isQueuePaused(channelId) ? ' (paused)' : '';
+      if (queue.length === 0) {
+        return `📭 No queued prompts in this channel${paused}.`;
+      }
+      const lines = queue.map((m, i) => {
+        const prompt = m.input.length > 80 ? m.input.substring(0, 77) + '...' : m.input;
+        const author = m.author ? `<@${m.author}>` : 'unknown';
+        return `${i + 1}. \`#${m.id}\` ${author}, ${formatElapsed(Date.now() - m.enqueuedAt.getTime())} ago — ${prompt.replace(/\n/g, ' ')}`;
+      });
+      return `📋 **Queue${paused}:**\n${lines.join('\n')}`;
+    }
+
+    if (subcommand === 'remove') {
+      const id = interaction.options.getInteger('id', true);
+      const queued = this.terminalManager.listQueue(channelId).find(m => m.id === id);
+      if (!queued) {
+        return `❌ No queued prompt \`#${id}\` in this channel. See \`/queue list\`.`;
+      }
+      if (queued.author !== userId && !(await this.isChannelApprover(channelId, userId))) {
+        return '🚫 Only the prompt\'s author or an approver can remove it.';
+      }
+      this.terminalManager.removeQueued(channelId, id);
+      console.log(`[Queue] ${userId} removed #${id} in channel ${channelId}`);
+      return `🗑️ Removed queued prompt \`#${id}\`.`;
+    }
+
+    if (!(await this.isChannelApprover(channelId, userId))) {
+      console.log(`[Approvers] Rejected /queue ${subcommand} in channel ${channelId} from unauthorized user ${userId}`);
+      return '🚫 You are not allowed to manage the queue in this channel. See `/approvers show`.';
+    }
+
+    if (subcommand === 'move') {
+      const id = interaction.options.getInteger('id', true);
+      const position = interaction.options.getInteger('position', true);
+      if (!this.terminalManager.moveQueued(channelId, id, position)) {
+        return `❌ No queued prompt \`#${id}\` in this channel. See \`/queue list\`.`;
+      }
+      const newPosition = this.terminalManager.listQueue(channelId).findIndex(m => m.id === id) + 1;
+      console.log(`[Queue] ${userId} moved #${id} to position ${newPosition} in channel ${channelId}`);
+      return `↕️ Moved \`#${id}\` to position ${newPosition}.`;
+    }
+
+    if (subcommand === 'pause') {
+      this.terminalManager.pauseQueue(channelId);
+      return '⏸️ Queue paused. New messages are queued until `/queue resume`.';
+    }
+
+    if (subcommand === 'resume') {
+      this.terminalManager.resumeQueue(channelId);
+      const remaining = this.terminalManager.getQueueLength(channelId);
+      return `▶️ Queue resumed (${remaining} prompt${remaining === 1 ? '' : 's'} waiting).`;
+    }
+
+    return 'Unknown queue command.';
+  }
+
+  private handleCoalesceCommand(interaction: ChatInputCommandInteraction): string {
+    const channelId = interaction.channelId;
+    const seconds = interaction.options.getInteger('seconds');
+    const current = this.sessionManager.getChannelSession(channelId)?.coalesceWindowMs;
+
+    if (seconds === null) {
+      return `📎 **Message merging:** ${current ? `${current / 1000}s window` : 'off'}\n\n` +
+        `Messages from the same user within the window, or sent while their previous message is still queued, become one prompt. ` +
+        `To change: \`/coalesce seconds:<1-${MAX_COALESCE_SECONDS}>\` (0 turns it off)`;
+    }
+    if (!this.sessionManager.canUseChannel(channelId, interaction.user.id)) {
+      return '🚫 Only the channel owner and collaborators can change message merging.';
+    }
+
+    const windowMs = seconds > 0 ? seconds * 1000 : undefined;
+    this.sessionManager.setChannelCoalesceWindow(channelId, windowMs);
+    console.log(`[Coalesce] Window for channel ${channelId} set to ${windowMs ? `${seconds}s` : 'off'}`);
+    return windowMs
+      ? `📎 Messages sent within ${seconds}s of each other, or while the previous one is queued, are merged into one prompt.`
+      : '📎 Message merging turned off. Each message is sent as its own prompt.';
+  }
+
+  private handleScheduleCommand(interaction: ChatInputCommandInteraction): string {
+    const channelId = interaction.channelId;
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+      const schedules = this.scheduleManager.list(channelId);
+      if (schedules.length === 0) {
+        return '⏰ No schedules in this channel. Add one with `/schedule add`.';
+      }
+      const lines = schedules.map(s => {
+        const next = this.scheduleManager.nextRun(s.id);
+        const nextText = next ? `next <t:${Math.floor(next.getTime() / 1000)}:R>` : 'not running';
+        const prompt = s.prompt.length > 80 ? s.prompt.substring(0, 77) + '...' : s.prompt;
+        return `• \`${s.id}\` \`${s.cron}\` (${nextText}, ${s.whenBusy} when busy) — ${prompt}`;
+      });
+      return `⏰ **Schedules:**\n${lines.join('\n')}\n\nTo remove: \`/schedule remove id:<id>\``;
+    }
+
+    if (!this.sessionManager.canUseChannel(channelId, interaction.user.id)) {
+      return '🚫 Only the channel owner and collaborators can change schedules.';
+    }
+
+    if (subcommand === 'add') {
+      const cron = interaction.options.getString('cron', true).trim();
+      const prompt = interaction.options.getString('prompt', true);
+      const whenBusy = (interaction.options.getString('when_busy') || 'skip') as 'skip' | 'queue';
+      let schedule: ChannelSchedule;
+      try {
+        schedule = this.scheduleManager.add(channelId, cron, prompt, whenBusy, interaction.user.id);
+      } catch (error: any) {
+        return `❌ Invalid cron expression \`${cron}\`: ${error.message}`;
+      }
+      console.log(`[Schedule] ${interaction.user.id} added ${schedule.id} (${cron}) in channel ${channelId}`);
+      const next = this.scheduleManager.nextRun(schedule.id);
+      return `⏰ Schedule \`${schedule.id}\` added: \`${cron}\`` +
+        (next ? `, first run <t:${Math.floor(next.getTime() / 1000)}:f>` : '') +
+        `. Runs are ${whenBusy === 'skip' ? 'skipped' : 'queued'} while Claude is busy.`;
+    }
+
+    if (subcommand === 'remove') {
+      const id = interaction.options.getString('id', true).trim();
+      if (!this.scheduleManager.remove(channelId, id)) {
+        return `❌ No schedule \`${id}\` in this channel. See \`/schedule list\`.`;
+      }
+      console.log(`[Schedule] ${interaction.user.id} removed ${id} in channel ${channelId}`);
+      return `🗑️ Schedule \`${id}\` removed.`;
     }
+
+    return 'Unknown schedule command.';
   }
 
-  private async handleInterrupt(message: Message): Promise<void> {
-    const channelSession = this.sessionManager.getChannelSession(message.channel.id);
+  // Send a scheduled prompt as the channel owner
+  async runSchedule(schedule: ChannelSchedule): Promise<void> {
+    const channelId = schedule.channelId;
+    const channelSession = this.sessionManager.getChannelSession(channelId);
     if (!channelSession) {
-      await message.reply('No active session in this channel.');
+      console.log(`[Schedule] Skipping ${schedule.id}: channel ${channelId} has no session`);
       return;
     }
-    this.terminalManager.sendInterrupt(channelSession.terminalId);
-    this.terminalManager.clearBusyState(message.channel.id);
-    this.messageQueues.set(message.channel.id, []);
-    await message.reply('⏹️ Interrupted Claude and cleared queue.');
-  }
 
-  private async handleReset(message: Message): Promise<void> {
-    const channelSession = this.sessionManager.getChannelSession(message.channel.id);
-    if (!channelSession) {
-      await message.reply('No active session in this channel.');
+    const channel = await this.client.channels.fetch(channelId) as TextChannel;
+    const prompt = schedule.prompt.length > 200 ? schedule.prompt.substring(0, 197) + '...' : schedule.prompt;
+
+    const ownerToken = this.sessionManager.getOAuthTokenForUser(channelSession.ownerId);
+    const exceeded = this.budgets.exceeded({ userId: channelSession.ownerId, channelId, tokenAlias: ownerToken?.alias });
+    if (exceeded.length > 0) {
+      console.log(`[Schedule] Skipping ${schedule.id}: budget reached (${exceeded.map(s => s.budget.id).join(', ')})`);
+      await channel.send(`⏭️ Skipped scheduled run \`${schedule.id}\`.\n${formatBudgetRefusal(exceeded)}`);
       return;
     }
-    this.terminalManager.resetConversation(message.channel.id);
-    this.messageQueues.set(message.channel.id, []);
-    this.sessionAllowlists.delete(message.channel.id);
-    await message.reply('🔄 Conversation reset. Next message starts fresh. Session allowlist cleared.');
+
+    if (this.terminalManager.isChannelBusy(channelId)) {
+      if (schedule.whenBusy === 'skip') {
+        console.log(`[Schedule] Skipping ${schedule.id}: channel ${channelId} is busy`);
+        await channel.send(`⏭️ Skipped scheduled run \`${schedule.id}\` — Claude is busy.`);
+        return;
+      }
+      const queuePos = this.terminalManager.getQueueLength(channelId) + 1;
+      await channel.send(`⏰ Scheduled run \`${schedule.id}\` queued (position ${queuePos}): ${prompt}`);
+    } else {
+      await channel.send(`⏰ Scheduled run \`${schedule.id}\`: ${prompt}`);
+    }
+
+    this.startTypingIndicator(channelId);
+    this.auditLog.record({
+      action: 'prompt', channelId, userId: channelSession.ownerId, source: 'schedule', scheduleId: schedule.id, text: schedule.prompt,
+    });
+
+    let success = await this.terminalManager.sendInput(channelSession.terminalId, schedule.prompt, ownerToken, channelSession.ownerId);
+    if (!success) {
+      // Terminals don't survive a restart; start one for the owner
+      console.log(`[Schedule] Terminal for channel ${channelId} not found, respawning...`);
+      await this.spawnClaudeCodeForChannel(channelId, channelSession.sessionToken, channelSession.ownerId, channel);
+      const newSession = this.sessionManager.getChannelSession(channelId);
+      if (newSession) {
+        success = await this.terminalManager.sendInput(newSession.terminalId, schedule.prompt, ownerToken, channelSession.ownerId);
+      }
+      if (!success) {
+        this.stopTypingIndicator(channelId);
+        await channel.send(`❌ Scheduled run \`${schedule.id}\` could not be sent to Claude Code.`);
+      }
+    }
   }
 
-  private async handleDebug(message: Message): Promise<void> {
-    const channelSession = this.sessionManager.getChannelSession(message.channel.id);
-    if (!channelSession) {
-      await message.reply('No active session in this channel.');
-      return;
+  // Owners (and admins) add or remove collaborators
+  private handleShareCommand(channelId: string, userId: string, targetId: string, share: boolean): string {
+    const channelSession = this.sessionManager.getChannelSession(channelId)!;
+    if (channelSession.ownerId !== userId && !this.sessionManager.isAdmin(userId)) {
+      return `🚫 Only the channel owner <@${channelSession.ownerId}> can change who has access.`;
     }
-    const output = this.terminalManager.getOutput(channelSession.terminalId, 30);
-    const outputText = output.join('').slice(-1800);
-    await message.reply(`📟 Terminal output:\n\`\`\`\n${outputText || '(no output)'}\n\`\`\``);
+
+    if (!share) {
+      if (!this.sessionManager.removeCollaborator(channelId, targetId)) {
+        return `<@${targetId}> is not a collaborator in this channel.`;
+      }
+      console.log(`[Session] ${userId} removed collaborator ${targetId} from channel ${channelId}`);
+      return `👋 <@${targetId}> can no longer talk to Claude in this channel.`;
+    }
+
+    if (!this.sessionManager.getSessionByUserId(targetId)) {
+      return `❌ <@${targetId}> hasn't linked a session yet. An admin can DM me \`invite\` to create a token for them.`;
+    }
+    if (!this.sessionManager.addCollaborator(channelId, targetId)) {
+      return `<@${targetId}> already has access to this channel.`;
+    }
+    console.log(`[Session] ${userId} shared channel ${channelId} with ${targetId}`);
+    return `🤝 <@${targetId}> can now talk to Claude in this channel. Messages are labeled with the sender's name.`;
+  }
+
+  // Whether a user passes the channel's approver policy (role policies need the guild member)
+  private async isChannelApprover(channelId: string, userId: string): Promise<boolean> {
+    const channel = await this.client.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+    const { policy } = this.approverPolicies.getPolicy(channelId, channel?.parentId ?? null);
+    const ownerId = this.sessionManager.getChannelSession(channelId)?.ownerId;
+
+    let roleIds: string[] = [];
+    if (policy.mode === 'role' && channel && userId !== ownerId) {
+      try {
+        const member = await channel.guild.members.fetch(userId);
+        roleIds = Array.from(member.roles.cache.keys());
+      } catch (error) {
+        console.error(`[Approvers] Could not fetch member ${userId}:`, error);
+      }
+    }
+    return isApprover(policy, userId, ownerId, roleIds, this.sessionManager.isAdmin(userId));
+  }
+
+  private async handleApproversCommand(interaction: ChatInputCommandInteraction): Promise<string> {
+    const channelId = interaction.channelId;
+    const channel = interaction.channel as TextChannel;
+    const subcommand = interaction.options.getSubcommand();
+    const scope = (interaction.options.getString('scope') || 'channel') as ApproverPolicyScope;
+
+    if (subcommand === 'show') {
+      const { policy, source } = this.approverPolicies.getPolicy(channelId, channel.parentId);
+      const from = source === 'default' ? 'default' : `set on this ${source}`;
+      return `🛡️ **Approvers:** ${describePolicy(policy)} (${from})
+
+` +
+        `They can answer tool approvals and prompts and use \`/reset\` and \`/interrupt\`.`;
+    }
+
+    // Only current approvers may change the policy
+    if (!(await this.isChannelApprover(channelId, interaction.user.id))) {
+      console.log(`[Approvers] Rejected /approvers ${subcommand} in channel ${channelId} from unauthorized user ${interaction.user.id}`);
+      return '🚫 Only current approvers can change the approver policy.';
+    }
+
+    const targetId = scope === 'category' ? channel.parentId : channelId;
+    if (!targetId) {
+      return '❌ This channel is not in a category.';
+    }
+
+    if (subcommand === 'clear') {
+      const removed = this.approverPolicies.clearPolicy(scope, targetId);
+      return removed ? `🛡️ Cleared the ${scope} approver policy.` : `No approver policy is set on this ${scope}.`;
+    }
+
+    if (subcommand === 'owner') {
+      this.approverPolicies.setPolicy(scope, targetId, { mode: 'owner' });
+    } else if (subcommand === 'users') {
+      // Accept mentions or raw IDs
+      const userIds = Array.from(new Set((interaction.options.getString('users', true).match(/\d{17,20}/g) || [])));
+      if (userIds.length === 0) {
+        return '❌ No users found. Mention them or paste their user IDs.';
+      }
+      this.approverPolicies.setPolicy(scope, targetId, { mode: 'users', userIds });
+    } else if (subcommand === 'role') {
+      const role = interaction.options.getRole('role', true);
+      this.approverPolicies.setPolicy(scope, targetId, { mode: 'role', roleId: role.id });
+    } else {
+      return 'Unknown approvers command.';
+    }
+
+    const { policy } = this.approverPolicies.getPolicy(channelId, channel.parentId);
+    console.log(`[Approvers] ${interaction.user.id} set ${scope} ${targetId} policy to ${subcommand}`);
+    return `🛡️ Approvers for this ${scope}: ${describePolicy(policy)}.`;
+  }
+
+  private describeChannelWorkingDirectory(channelId: string): string {
+    const channelSession = this.sessionManager.getChannelSession(channelId);
+    const cwd = channelSession?.workingDirectory || this.workingDirectory;
+    const isDefault = !channelSession?.workingDirectory;
+    return `📁 **Working directory:** \`${cwd}\`${isDefault ? ' (default)' : ''}\n\n` +
+      `To change: \`/cwd path:<dir>\` (must be under \`${this.allowedWorkingRoot}\`)`;
+  }
+
+  // Bind the channel to a new directory: respawns the terminal and starts a fresh Claude session,
+  // since Claude sessions are tied to the project directory they were started in.
+  private async changeChannelWorkingDirectory(
+    channelId: string,
+    userId: string,
+    requestedPath: string,
+    channel: TextChannel
+  ): Promise<string> {
+    const session = this.sessionManager.getSessionByUserId(userId);
+    if (!session) {
+      return `Please DM me your session token first to set up Claude Code.`;
+    }
+    // Moving a channel kills its running turn and resets its conversation
+    if (this.sessionManager.getChannelSession(channelId)) {
+      if (!this.sessionManager.canUseChannel(channelId, userId)) {
+        console.log(`[Cwd] Rejected directory change in channel ${channelId} from non-member ${userId}`);
+        return '🚫 Only the channel owner and collaborators can change the working directory.';
+      }
+      if (!(await this.isChannelApprover(channelId, userId))) {
+        console.log(`[Approvers] Rejected /cwd in channel ${channelId} from unauthorized user ${userId}`);
+        return '🚫 You are not allowed to change the working directory of this channel. See `/approvers show`.';
+      }
+    }
+
+    const resolved = path.resolve(this.allowedWorkingRoot, requestedPath);
+    let realPath: string;
+    try {
+      realPath = fs.realpathSync(resolved);
+    } catch {
+      return `❌ Directory \`${resolved}\` does not exist.`;
+    }
+    if (!fs.statSync(realPath).isDirectory()) {
+      return `❌ \`${realPath}\` is not a directory.`;
+    }
+
+    // Compare real paths so symlinks can't escape the allowed root
+    let realRoot: string;
+    try {
+      realRoot = fs.realpathSync(this.allowedWorkingRoot);
+    } catch {
+      return `❌ Allowed root \`${this.allowedWorkingRoot}\` does not exist. Check \`ALLOWED_WORKING_ROOT\`.`;
+    }
+    const relative = path.relative(realRoot, realPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return `❌ \`${realPath}\` is outside the allowed root \`${realRoot}\`.`;
+    }
+
+    const existing = this.sessionManager.getChannelSession(channelId);
+    if (existing?.workingDirectory === realPath) {
+      return `📁 Already using \`${realPath}\`.`;
+    }
+
+    this.terminalManager.killByChannelId(channelId);
+    this.terminalManager.resetConversation(channelId);
+    this.stopTypingIndicator(channelId);
+
+    await this.spawnClaudeCodeForChannel(channelId, existing?.sessionToken || session.token, userId, channel, realPath);
+    if (!this.sessionManager.getChannelSession(channelId)) {
+      return `❌ Failed to start Claude Code in \`${realPath}\`.`;
+    }
+    return `📁 Working directory set to \`${realPath}\`. Terminal restarted; next message starts a new conversation.`;
   }
 
   private async spawnClaudeCodeForChannel(
     channelId: string,
     sessionToken: string,
     userId: string,
-    channel: TextChannel
+    channel: TextChannel,
+    workingDirectory?: string
   ): Promise<void> {
     const session = this.sessionManager.getSessionByToken(sessionToken);
     if (!session) {
@@ -592,14 +2444,20 @@ export class DiscordBot {
 
     const userToken = this.sessionManager.getOAuthTokenForUser(userId);
     const channelSession = this.sessionManager.createChannelSession(channelId, sessionToken, userId, '');
+    if (workingDirectory) {
+      this.sessionManager.setChannelWorkingDirectory(channelId, workingDirectory);
+    }
+    const cwd = await this.resolveChannelCwd(channelId, channel);
 
     try {
-      const terminal = await this.terminalManager.spawnClaudeCode(channelId, channelSession.mcpPort, userToken?.token);
+      const terminal = await this.terminalManager.spawnClaudeCode(
+        channelId, channelSession.mcpPort, userToken?.token, cwd, channelSession.approvalTimeoutMs
+      );
       channelSession.terminalId = terminal.id;
 
       const tokenInfo = userToken ? `\nUsing token: \`${userToken.alias}\`` : '';
       await channel.send(
-        `**Claude Code started!**\nWorking directory: \`${session.workingDirectory}\`${tokenInfo}`
+        `**Claude Code started!**\nWorking directory: \`${cwd}\`${tokenInfo}`
       );
 
       console.log(`Spawned Claude Code for channel ${channelId} on MCP port ${channelSession.mcpPort}`);
@@ -610,26 +2468,13 @@ export class DiscordBot {
     }
   }
 
-  private queueMessage(channelId: string, userId: string, text: string): void {
-    if (!this.messageQueues.has(channelId)) {
-      this.messageQueues.set(channelId, []);
-    }
-    const queue = this.messageQueues.get(channelId)!;
-    queue.push({ user: userId, text, timestamp: new Date() });
-    if (queue.length > 100) queue.shift();
-  }
-
-  getPendingMessages(channelId: string): PendingMessage[] {
-    const messages = this.messageQueues.get(channelId) || [];
-    this.messageQueues.set(channelId, []);
-    return messages;
-  }
-
   async handleQueueProcess(channelId: string, message: string): Promise<void> {
     try {
       const channel = await this.client.channels.fetch(channelId) as TextChannel;
       if (channel) {
-        const displayMessage = message.length > 100 ? message.substring(0, 97) + '...' : message;
+        // Redact before truncating so a secret cut off at the end is still caught
+        const redacted = redact(message);
+        const displayMessage = redacted.length > 100 ? redacted.substring(0, 97) + '...' : redacted;
         await channel.send(`▶️ Processing: "${displayMessage}"`);
       }
     } catch (error) {
@@ -666,9 +2511,143 @@ export class DiscordBot {
     }
   }
 
-  async handleAgentTurnComplete(channelId: string): Promise<void> {
+  // Handle a progress event from a stream-json turn
+  async handleStreamEvent(channelId: string, event: TurnProgressEvent): Promise<void> {
+    let progress = this.turnProgress.get(channelId);
+    if (!progress) {
+      progress = {
+        startedAt: Date.now(),
+        currentStep: 'Starting…',
+        recentSteps: [],
+        toolCounts: new Map(),
+        lastEditAt: 0,
+      };
+      this.turnProgress.set(channelId, progress);
+      progress.tickInterval = setInterval(() => this.scheduleProgressEdit(channelId), PROGRESS_TICK_MS);
+    }
+
+    switch (event.kind) {
+      case 'init':
+        progress.currentStep = 'Session started';
+        break;
+      case 'text': {
+        const preview = (event.text || '').replace(/\s+/g, ' ').trim();
+        progress.currentStep = `💬 ${preview.length > 150 ? preview.substring(0, 147) + '...' : preview}`;
+        break;
+      }
+      case 'tool_use': {
+        const toolName = event.toolName || 'tool';
+        progress.toolCounts.set(toolName, (progress.toolCounts.get(toolName) || 0) + 1);
+        progress.currentStep = `🔧 Running \`${toolName}\`${event.text ? `: \`${event.text}\`` : ''}`;
+        break;
+      }
+      case 'tool_result':
+        progress.currentStep = event.isError
+          ? `❌ \`${event.toolName || 'tool'}\` failed`
+          : `✔️ \`${event.toolName || 'tool'}\` done`;
+        break;
+    }
+
+    if (event.kind !== 'init') {
+      progress.recentSteps.push(progress.currentStep);
+      if (progress.recentSteps.length > 5) progress.recentSteps.shift();
+    }
+
+    this.scheduleProgressEdit(channelId);
+  }
+
+  // Edit the progress message, throttled to PROGRESS_EDIT_INTERVAL_MS
+  private scheduleProgressEdit(channelId: string): void {
+    const progress = this.turnProgress.get(channelId);
+    if (!progress || progress.editTimer) return;
+
+    const wait = Math.max(0, progress.lastEditAt + PROGRESS_EDIT_INTERVAL_MS - Date.now());
+    progress.editTimer = setTimeout(async () => {
+      progress.editTimer = undefined;
+      if (this.turnProgress.get(channelId) !== progress) return; // Turn already finished
+      progress.lastEditAt = Date.now();
+      await this.renderProgress(channelId, progress, this.formatProgress(progress, false));
+    }, wait);
+  }
+
+  private async renderProgress(channelId: string, progress: TurnProgress, text: string): Promise<void> {
+    const content = redact(text);
+    try {
+      if (progress.message) {
+        await progress.message.edit(content);
+        return;
+      }
+      if (!progress.creating) {
+        progress.creating = (async () => {
+          const channel = await this.client.channels.fetch(channelId) as TextChannel;
+          return channel ? await channel.send(content) : undefined;
+        })();
+        progress.message = await progress.creating;
+      } else {
+        // Another edit is creating the message; edit once it exists
+        const message = await progress.creating;
+        await message?.edit(content);
+      }
+    } catch (error) {
+      console.error(`[Progress] Failed to update progress message in ${channelId}:`, error);
+    }
+  }
+
+  private formatProgress(progress: TurnProgress, done: boolean): string {
+    const elapsed = formatElapsed(Date.now() - progress.startedAt);
+    const tools = Array.from(progress.toolCounts.entries())
+      .map(([name, count]) => count > 1 ? `\`${name}\` ×${count}` : `\`${name}\``)
+      .join(', ');
+
+    if (done) {
+      const totalCalls = Array.from(progress.toolCounts.values()).reduce((a, b) => a + b, 0);
+      return `✅ **Done** in ${elapsed}` + (totalCalls > 0 ? ` — ${totalCalls} tool call(s): ${tools}` : '');
+    }
+
+    let content = `⏳ **Working…** (${elapsed})\n**Now:** ${progress.currentStep}`;
+    if (tools) {
+      content += `\n**Tools used:** ${tools}`;
+    }
+    if (progress.recentSteps.length > 1) {
+      content += `\n**Recent:**\n` + progress.recentSteps.slice(0, -1).map(step => `• ${step}`).join('\n');
+    }
+    return content.length > 1990 ? content.substring(0, 1987) + '...' : content;
+  }
+
+  // Mark the progress message as done and stop updating it
+  private async finishTurnProgress(channelId: string): Promise<void> {
+    const progress = this.turnProgress.get(channelId);
+    if (!progress) return;
+    this.turnProgress.delete(channelId);
+    if (progress.editTimer) clearTimeout(progress.editTimer);
+    if (progress.tickInterval) clearInterval(progress.tickInterval);
+    await this.renderProgress(channelId, progress, this.formatProgress(progress, true));
+  }
+
+  async handleAgentTurnComplete(channelId: string, outcome?: TurnOutcome): Promise<void> {
     // Stop typing indicator when Claude finishes
     this.stopTypingIndicator(channelId);
+    await this.finishTurnProgress(channelId);
+
+    const usageEntry = outcome && usageEntryFromOutcome(channelId, outcome);
+    if (usageEntry) {
+      this.usageLedger.record(usageEntry);
+      await this.sendBudgetWarnings(channelId, usageEntry.userId, usageEntry.tokenAlias);
+    }
+
+    // A rate-limited or rejected token is retried on the next healthy one instead of failing
+    if (outcome && await this.failOverToken(channelId, outcome)) {
+      this.terminalManager.clearLatestResultText(channelId);
+      return;
+    }
+    if (outcome) {
+      await this.announceFallbackToken(channelId, outcome);
+    }
+
+    // Report a failed turn instead of staying silent
+    if (outcome && outcome.exitCode !== 0 && !outcome.interrupted) {
+      await this.reportFailedTurn(channelId, outcome);
+    }
     // Check if there's a result text that wasn't sent via MCP
     const resultText = this.terminalManager.getLatestResultText(channelId);
     if (resultText) {
@@ -684,6 +2663,69 @@ export class DiscordBot {
     }
   }
 
+  // Put the turn's token in cooldown and queue the prompt again on the author's next healthy token.
+  // Returns false if the failure isn't token related or there is nothing to fall back to.
+  private async failOverToken(channelId: string, outcome: TurnOutcome): Promise<boolean> {
+    if (!outcome.tokenAlias || outcome.input === undefined) return false;
+    const failure = detectTokenFailure(outcome);
+    if (!failure) return false;
+
+    this.sessionManager.markTokenCooldown(outcome.tokenAlias, failure);
+    const next = outcome.author ? this.sessionManager.getOAuthTokenForUser(outcome.author) : undefined;
+    const retry = next && next.alias !== outcome.tokenAlias && !this.sessionManager.getTokenCooldown(next.alias);
+    const problem = failure.reason === 'auth' ? 'was rejected' : 'hit its usage limit';
+    const notice = `🔁 Token \`${outcome.tokenAlias}\` ${problem} (available again <t:${Math.floor(failure.until.getTime() / 1000)}:R>).`;
+
+    if (retry) {
+      this.auditLog.record({
+        action: 'token_switch', channelId, userId: outcome.author, fromAlias: outcome.tokenAlias, toAlias: next!.alias, automatic: true,
+      });
+      this.terminalManager.retryTurn(channelId, outcome.input, next, outcome.author);
+      this.startTypingIndicator(channelId);
+    }
+    try {
+      const channel = await this.client.channels.fetch(channelId) as TextChannel;
+      await channel.send(retry
+        ? `${notice} Retrying on \`${next!.alias}\`.`
+        : `${notice} No healthy fallback token; DM me \`fallback <alias> ...\` to set one.`);
+    } catch (error) {
+      console.error(`[Tokens] Failed to send failover notice to channel ${channelId}:`, error);
+    }
+    return !!retry;
+  }
+
+  // Tell the channel when a turn ran on a fallback token rather than the author's own
+  private async announceFallbackToken(channelId: string, outcome: TurnOutcome): Promise<void> {
+    if (!outcome.author || !outcome.tokenAlias || outcome.exitCode !== 0) return;
+    const preferred = this.sessionManager.getPreferredOAuthToken(outcome.author);
+    if (!preferred || preferred.alias === outcome.tokenAlias) return;
+    try {
+      const channel = await this.client.channels.fetch(channelId) as TextChannel;
+      await channel.send(`🔑 Served by token \`${outcome.tokenAlias}\` (\`${preferred.alias}\` is cooling down).`);
+    } catch (error) {
+      console.error(`[Tokens] Failed to announce token for channel ${channelId}:`, error);
+    }
+  }
+
+  private async reportFailedTurn(channelId: string, outcome: TurnOutcome): Promise<void> {
+    const status = outcome.exitCode === null ? 'was killed' : `exited with code ${outcome.exitCode}`;
+    // May hold tool output, environment dumps or the PTY's echo of the command
+    const fullStderr = redact(outcome.stderr);
+    const stderr = fullStderr.length > 1500 ? '...' + fullStderr.slice(-1500) : fullStderr;
+    console.error(`[AgentTurnComplete] Turn in channel ${channelId} ${status}`);
+    try {
+      const channel = await this.client.channels.fetch(channelId) as TextChannel;
+      if (channel) {
+        await channel.send(
+          `❌ **Claude ${status}.**` +
+          (stderr ? `\n\`\`\`\n${stderr}\n\`\`\`` : '\n(no error output)')
+        );
+      }
+    } catch (error) {
+      console.error(`[AgentTurnComplete] Failed to report error to channel ${channelId}:`, error);
+    }
+  }
+
   private async processAttachments(message: Message, channelId: string): Promise<string[]> {
     const downloadedFiles: string[] = [];
     const tmpDir = path.join(this.appDirectory, '.claude-minion', 'tmp', channelId);
@@ -710,24 +2752,47 @@ export class DiscordBot {
   }
 
   // HTTP server for MCP communication
-  startOrchestratorServer(port: number): void {
+  // host defaults to loopback; every request must be signed with its channel's secret
+  startOrchestratorServer(port: number, host: string = '127.0.0.1'): void {
     this.orchestratorServer = http.createServer(async (req, res) => {
       const url = new URL(req.url || '/', `http://localhost:${port}`);
 
-      if (req.method === 'GET' && url.pathname.startsWith('/messages/')) {
-        const channelId = url.pathname.split('/messages/')[1];
-        const messages = this.getPendingMessages(channelId);
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ messages }));
-        return;
-      }
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', async () => {
+        const channelId = getRequestChannel(req.headers);
+        const secret = channelId ? this.terminalManager.getChannelSecret(channelId) : undefined;
+        if (!channelId || !secret || !verifyRequest(secret, req.method || '', req.url || '/', req.headers, body)) {
+          console.warn(`[Orchestrator] Rejected unsigned request ${req.method} ${url.pathname} from ${req.socket.remoteAddress}`);
+          res.writeHead(401);
+          res.end('Unauthorized');
+          return;
+        }
 
-      if (req.method === 'POST') {
-        let body = '';
-        req.on('data', chunk => body += chunk);
-        req.on('end', async () => {
+        if (req.method === 'GET' && url.pathname.startsWith('/messages/')) {
+          const requestedChannelId = url.pathname.split('/messages/')[1];
+          if (requestedChannelId !== channelId) {
+            console.warn(`[Orchestrator] Channel ${channelId} tried to read messages of ${requestedChannelId}`);
+            res.writeHead(403);
+            res.end('Forbidden');
+            return;
+          }
+          // Read-only view of the prompts waiting in TerminalManager's queue
+          const messages = this.terminalManager.listQueue(channelId);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ messages }));
+          return;
+        }
+
+        if (req.method === 'POST') {
           try {
             const data = JSON.parse(body);
+            if (data.channelId !== channelId) {
+              console.warn(`[Orchestrator] Channel ${channelId} tried to post to ${data.channelId}`);
+              res.writeHead(403);
+              res.end('Forbidden');
+              return;
+            }
             await this.handleMCPMessage(data);
             res.writeHead(200);
             res.end('OK');
@@ -736,21 +2801,24 @@ export class DiscordBot {
             res.writeHead(500);
             res.end('Error');
           }
-        });
-        return;
-      }
+          return;
+        }
 
-      res.writeHead(404);
-      res.end('Not found');
+        res.writeHead(404);
+        res.end('Not found');
+      });
     });
 
-    this.orchestratorServer.listen(port, () => {
-      console.log(`Orchestrator server listening on port ${port}`);
+    this.orchestratorServer.listen(port, host, () => {
+      console.log(`Orchestrator server listening on ${host}:${port}`);
     });
   }
 
   private async handleMCPMessage(data: any): Promise<void> {
-    const { type, channelId, content, filename, base64Content, mentionText, requestId, approvalPort } = data;
+    const { type, channelId, filename, base64Content, requestId, approvalPort } = data;
+    // Claude's messages and tool inputs can quote secrets it read from disk or the environment
+    const content = typeof data.content === 'string' ? redact(data.content) : data.content;
+    const mentionText = typeof data.mentionText === 'string' ? redact(data.mentionText) : data.mentionText;
 
     // Clear any pending result text since MCP is handling the response
     this.terminalManager.clearLatestResultText(channelId);
@@ -763,7 +2831,7 @@ export class DiscordBot {
       }
 
       const channelSession = this.sessionManager.getChannelSession(channelId);
-      const userId = channelSession?.userId;
+      const userId = channelSession?.ownerId;
 
       switch (type) {
         case 'markdown':
@@ -774,7 +2842,7 @@ export class DiscordBot {
         case 'file_upload':
           const fileBuffer = Buffer.from(base64Content, 'base64');
           await channel.send({
-            files: [{ attachment: fileBuffer, name: filename }]
+            files: [{ attachment: redactFileContent(fileBuffer), name: redact(filename) }]
           });
           break;
 
@@ -794,19 +2862,21 @@ export class DiscordBot {
         case 'approval_request':
           const toolName = data.toolName || 'unknown';
           const channelAllowlist = this.sessionAllowlists.get(channelId);
+          const matchedRule = Array.from(channelAllowlist || []).find(rule => ruleMatches(rule, toolName, data.toolInput));
           
-          // Check if this tool is already approved for the session
-          if (channelAllowlist?.has(toolName)) {
-            console.log(`[Approval] Auto-approved ${toolName} for channel ${channelId} (session allowlist)`);
+          // Check if a session rule already approves this call
+          if (matchedRule) {
+            console.log(`[Approval] Auto-approved ${toolName} for channel ${channelId} (rule ${matchedRule})`);
+            this.auditApproval({ channelId, requestId, toolName, toolInput: data.toolInput }, 'allow', 'allowlist', { rule: matchedRule });
             try {
-              await this.sendApprovalResponse(approvalPort || 3001, requestId, 'allow');
+              await this.sendApprovalResponse(channelId, approvalPort || 3001, requestId, 'allow');
               console.log(`[Approval] Auto-approval response sent successfully for ${requestId}`);
             } catch (err) {
               console.error(`[Approval] Auto-approval response failed for ${requestId}:`, err);
               // Retry once after a short delay
               await new Promise(r => setTimeout(r, 500));
               try {
-                await this.sendApprovalResponse(approvalPort || 3001, requestId, 'allow');
+                await this.sendApprovalResponse(channelId, approvalPort || 3001, requestId, 'allow');
                 console.log(`[Approval] Auto-approval retry succeeded for ${requestId}`);
               } catch (err2) {
                 console.error(`[Approval] Auto-approval retry also failed:`, err2);
@@ -815,21 +2885,38 @@ export class DiscordBot {
             break;
           }
           
-          // Send approval message with 3-option reactions
-          const approvalMsg = await channel.send(content);
-          await approvalMsg.react('1️⃣');
-          await approvalMsg.react('2️⃣');
-          await approvalMsg.react('3️⃣');
-          
-          // Store pending approval with tool name for session allowlist
-          this.pendingApprovals.set(approvalMsg.id, {
-            messageId: approvalMsg.id,
+          // Store pending approval with its rules for the session allowlist
+          const approval: PendingApproval = {
+            messageId: '',
             channelId,
             requestId,
             approvalPort: approvalPort || 3001,
             toolName,
+            toolInput: redactValue(data.toolInput),
+            narrowRule: data.narrowRule,
+            broadRule: data.broadRule || toolName,
             timestamp: Date.now(),
+            expiresAt: data.expiresAt,
+          };
+          const approvalContent = approval.expiresAt
+            ? `${content}\n⏳ Auto-denies <t:${Math.floor(approval.expiresAt / 1000)}:R>`
+            : content;
+
+          // Send approval message with buttons (the rule button only when a narrow rule exists)
+          // and the preview attachments (raw input, long diffs or commands)
+          const approvalFiles = (data.attachments || []).map((file: { name: string; content: string }) => ({
+            attachment: Buffer.from(redact(file.content), 'utf-8'),
+            name: file.name,
+          }));
+          const approvalMsg = await channel.send({
+            content: approvalContent.length > 2000 ? approvalContent.substring(0, 1997) + '...' : approvalContent,
+            components: this.buildApprovalButtons(approval),
+            files: approvalFiles,
           });
+          approval.messageId = approvalMsg.id;
+          this.pendingApprovals.set(approvalMsg.id, approval);
+          this.saveApprovalState();
+          this.scheduleApprovalTimers(approval);
           
           console.log(`[Approval] Posted request ${requestId} (tool: ${toolName}) as message ${approvalMsg.id}`);
           break;
@@ -842,7 +2929,8 @@ export class DiscordBot {
     }
   }
 
-  private async sendLongMessage(channel: TextChannel, content: string): Promise<void> {
+  private async sendLongMessage(channel: TextChannel, text: string): Promise<void> {
+    const content = redact(text);
     const maxLength = 1990; // Leave room for code blocks etc
     
     if (content.length <= maxLength) {
@@ -871,12 +2959,270 @@ export class DiscordBot {
   }
 
   async registerSlashCommands(): Promise<void> {
+    // /approvers subcommands apply to this channel or its whole category
+    const addScopeOption = (sub: SlashCommandSubcommandBuilder) => sub.addStringOption(option =>
+      option.setName('scope')
+        .setDescription('Apply to this channel (default) or every channel in its category')
+        .setRequired(false)
+        .addChoices({ name: 'channel', value: 'channel' }, { name: 'category', value: 'category' })
+    );
+    const addPeriodOption = (sub: SlashCommandSubcommandBuilder, description: string) => sub.addStringOption(option =>
+      option.setName('period')
+        .setDescription(description)
+        .setRequired(false)
+        .addChoices({ name: 'today', value: 'today' }, { name: 'week', value: 'week' }, { name: 'all', value: 'all' })
+    );
+    const addBudgetOptions = (sub: SlashCommandSubcommandBuilder) => sub
+      .addStringOption(option =>
+        option.setName('period')
+          .setDescription('When the budget resets')
+          .setRequired(true)
+          .addChoices({ name: 'daily', value: 'daily' }, { name: 'monthly', value: 'monthly' })
+      )
+      .addStringOption(option =>
+        option.setName('metric')
+          .setDescription('What the limit measures')
+          .setRequired(true)
+          .addChoices({ name: 'cost (USD)', value: 'cost' }, { name: 'output tokens', value: 'output_tokens' })
+      )
+      .addNumberOption(option => option.setName('limit').setDescription('Hard cap; new messages are refused once reached').setRequired(true).setMinValue(0))
+      .addIntegerOption(option =>
+        option.setName('warn_percent')
+          .setDescription('Soft warning threshold in percent of the limit (default: 80)')
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(100)
+      );
+
     const commands = [
       new SlashCommandBuilder().setName('reset').setDescription('Reset conversation and start fresh'),
-      new SlashCommandBuilder().setName('interrupt').setDescription('Stop current Claude operation (Ctrl+C)'),
+      new SlashCommandBuilder()
+        .setName('interrupt')
+        .setDescription('Stop current Claude operation (Ctrl+C)')
+        .addBooleanOption(option =>
+          option.setName('keep_queue')
+            .setDescription('Keep queued prompts instead of clearing them (default: false)')
+            .setRequired(false)
+        ),
+      new SlashCommandBuilder()
+        .setName('queue')
+        .setDescription('View and manage queued prompts in this channel')
+        .addSubcommand(sub => sub.setName('list').setDescription('List queued prompts'))
+        .addSubcommand(sub =>
+          sub.setName('remove')
+            .setDescription('Remove a queued prompt')
+            .addIntegerOption(option => option.setName('id').setDescription('Prompt ID from /queue list').setRequired(true))
+        )
+        .addSubcommand(sub =>
+          sub.setName('move')
+            .setDescription('Move a queued prompt to another position')
+            .addIntegerOption(option => option.setName('id').setDescription('Prompt ID from /queue list').setRequired(true))
+            .addIntegerOption(option => option.setName('position').setDescription('New position (1 = next)').setRequired(true).setMinValue(1))
+        )
+        .addSubcommand(sub => sub.setName('pause').setDescription('Hold queued prompts until resumed'))
+        .addSubcommand(sub => sub.setName('resume').setDescription('Resume processing queued prompts')),
       new SlashCommandBuilder().setName('compact').setDescription('Compact Claude Code conversation context'),
       new SlashCommandBuilder().setName('debug').setDescription('Show terminal output for debugging'),
       new SlashCommandBuilder().setName('context').setDescription('Display context window usage stats'),
+      new SlashCommandBuilder()
+        .setName('usage')
+        .setDescription('Token usage and cost of completed turns')
+        .addSubcommand(sub => addPeriodOption(
+          sub.setName('summary')
+            .setDescription('Totals for today, the last 7 days and all time, by channel, user and token'),
+          'Window for the breakdown (default: week)'
+        ))
+        .addSubcommand(sub => addPeriodOption(
+          sub.setName('export')
+            .setDescription('Download turns as CSV or JSON')
+            .addStringOption(option =>
+              option.setName('format')
+                .setDescription('File format (default: csv)')
+                .setRequired(false)
+                .addChoices({ name: 'csv', value: 'csv' }, { name: 'json', value: 'json' })
+            ),
+          'Turns to include (default: week)'
+        )),
+      new SlashCommandBuilder()
+        .setName('budget')
+        .setDescription('Spending caps per user, channel or token alias')
+        .addSubcommand(sub => sub.setName('list').setDescription('List budgets and what has been used'))
+        .addSubcommand(sub => addBudgetOptions(
+          sub.setName('user')
+            .setDescription('Set a budget for a user (admins)')
+            .addUserOption(option => option.setName('user').setDescription('User to cap').setRequired(true))
+        ))
+        .addSubcommand(sub => addBudgetOptions(
+          sub.setName('channel').setDescription('Set a budget for a channel (admins)')
+        ).addChannelOption(option => option.setName('channel').setDescription('Channel to cap (default: this one)').setRequired(false)))
+        .addSubcommand(sub => addBudgetOptions(
+          sub.setName('alias')
+            .setDescription('Set a budget for an OAuth token alias (admins)')
+            .addStringOption(option => option.setName('alias').setDescription('Token alias ("default" for the inherited token)').setRequired(true))
+        ))
+        .addSubcommand(sub =>
+          sub.setName('remove')
+            .setDescription('Remove a budget (admins)')
+            .addStringOption(option => option.setName('id').setDescription('Budget ID from /budget list').setRequired(true))
+        ),
+      new SlashCommandBuilder().setName('sessions').setDescription('List this channel\'s past and current conversations'),
+      new SlashCommandBuilder()
+        .setName('resume')
+        .setDescription('Switch this channel back to an earlier conversation')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('Conversation from /sessions (ID or its first 8 characters)')
+            .setRequired(true)
+            .setAutocomplete(true)
+        ),
+      new SlashCommandBuilder()
+        .setName('attach')
+        .setDescription('Continue a Claude Code session started in a terminal in this channel\'s directory')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('Session to continue (leave empty to list recent sessions)')
+            .setRequired(false)
+            .setAutocomplete(true)
+        ),
+      new SlashCommandBuilder().setName('detach').setDescription('Release this channel\'s conversation and show how to resume it in a terminal'),
+      new SlashCommandBuilder()
+        .setName('export')
+        .setDescription('Download the current conversation, including tool calls and results')
+        .addStringOption(option =>
+          option.setName('format')
+            .setDescription('File format (default: md)')
+            .setRequired(false)
+            .addChoices({ name: 'Markdown', value: 'md' }, { name: 'HTML', value: 'html' }, { name: 'JSON (raw session lines)', value: 'json' })
+        ),
+      new SlashCommandBuilder()
+        .setName('audit')
+        .setDescription('Download audit log entries: prompts, approvals and admin actions (admins)')
+        .addChannelOption(option => option.setName('channel').setDescription('Only this channel').setRequired(false))
+        .addUserOption(option => option.setName('user').setDescription('Only actions by this user').setRequired(false))
+        .addStringOption(option => option.setName('tool').setDescription('Only approvals of this tool (e.g. Bash)').setRequired(false))
+        .addStringOption(option =>
+          option.setName('period')
+            .setDescription('Entries to include (default: week)')
+            .setRequired(false)
+            .addChoices({ name: 'today', value: 'today' }, { name: 'week', value: 'week' }, { name: 'all', value: 'all' })
+        ),
+      new SlashCommandBuilder()
+        .setName('cwd')
+        .setDescription('Set or view the working directory for this channel')
+        .addStringOption(option =>
+          option.setName('path')
+            .setDescription('Directory (absolute, or relative to the allowed root)')
+            .setRequired(false)
+        ),
+      new SlashCommandBuilder()
+        .setName('worktree')
+        .setDescription('Manage this channel\'s git worktree')
+        .addSubcommand(sub => sub.setName('status').setDescription('Show branch, commits ahead and uncommitted changes'))
+        .addSubcommand(sub => sub.setName('merge').setDescription('Merge the channel branch into the base branch'))
+        .addSubcommand(sub => sub.setName('discard').setDescription('Delete the worktree and its branch')),
+      new SlashCommandBuilder()
+        .setName('permissions')
+        .setDescription('Manage session approval rules and the approval timeout in this channel')
+        .addSubcommand(sub => sub.setName('list').setDescription('List active approval rules'))
+        .addSubcommand(sub =>
+          sub.setName('revoke')
+            .setDescription('Remove an approval rule')
+            .addStringOption(option =>
+              option.setName('rule')
+                .setDescription('Rule text (e.g. Bash(git push:*)) or its number from /permissions list')
+                .setRequired(true)
+            )
+        )
+        .addSubcommand(sub =>
+          sub.setName('timeout')
+            .setDescription('Set or view how long approval requests wait before being auto-denied')
+            .addIntegerOption(option =>
+              option.setName('minutes')
+                .setDescription('Minutes to wait (0 restores the default)')
+                .setRequired(false)
+                .setMinValue(0)
+                .setMaxValue(60)
+            )
+        ),
+      new SlashCommandBuilder()
+        .setName('output')
+        .setDescription('Set or view how Claude output is shown in this channel')
+        .addStringOption(option =>
+          option.setName('mode')
+            .setDescription('Output mode')
+            .setRequired(false)
+            .addChoices(
+              { name: 'stream-json (live progress)', value: 'stream-json' },
+              { name: 'json (final result only)', value: 'json' },
+            )
+        ),
+      new SlashCommandBuilder()
+        .setName('approvers')
+        .setDescription('Set or view who can answer approvals and run destructive commands (/reset, /interrupt, /cwd, ...)')
+        .addSubcommand(sub => sub.setName('show').setDescription('Show the approver policy for this channel'))
+        .addSubcommand(sub => addScopeOption(sub.setName('owner').setDescription('Only the channel owner')))
+        .addSubcommand(sub => addScopeOption(
+          sub.setName('users')
+            .setDescription('The channel owner and specific users')
+            .addStringOption(option =>
+              option.setName('users')
+                .setDescription('User mentions or IDs, separated by spaces')
+                .setRequired(true)
+            )
+        ))
+        .addSubcommand(sub => addScopeOption(
+          sub.setName('role')
+            .setDescription('The channel owner and members of a role')
+            .addRoleOption(option => option.setName('role').setDescription('Approver role').setRequired(true))
+        ))
+        .addSubcommand(sub => addScopeOption(sub.setName('clear').setDescription('Remove the policy (falls back to category, then owner only)'))),
+      new SlashCommandBuilder()
+        .setName('coalesce')
+        .setDescription('Merge rapid-fire messages into a single prompt')
+        .addIntegerOption(option =>
+          option.setName('seconds')
+            .setDescription('Merge window in seconds (0 turns merging off)')
+            .setRequired(false)
+            .setMinValue(0)
+            .setMaxValue(MAX_COALESCE_SECONDS)
+        ),
+      new SlashCommandBuilder()
+        .setName('schedule')
+        .setDescription('Run prompts in this channel on a schedule')
+        .addSubcommand(sub =>
+          sub.setName('add')
+            .setDescription('Add a recurring prompt')
+            .addStringOption(option =>
+              option.setName('cron')
+                .setDescription('Cron expression, e.g. "0 9 * * 1-5" for weekdays at 9:00')
+                .setRequired(true)
+            )
+            .addStringOption(option =>
+              option.setName('prompt')
+                .setDescription('Prompt to send to Claude')
+                .setRequired(true)
+            )
+            .addStringOption(option =>
+              option.setName('when_busy')
+                .setDescription('What to do if Claude is still working when it fires (default: skip)')
+                .setRequired(false)
+                .addChoices({ name: 'skip', value: 'skip' }, { name: 'queue', value: 'queue' })
+            )
+        )
+        .addSubcommand(sub => sub.setName('list').setDescription('List schedules in this channel'))
+        .addSubcommand(sub =>
+          sub.setName('remove')
+            .setDescription('Remove a schedule')
+            .addStringOption(option => option.setName('id').setDescription('Schedule ID from /schedule list').setRequired(true))
+        ),
+      new SlashCommandBuilder()
+        .setName('share')
+        .setDescription('Let another user talk to Claude in this channel')
+        .addUserOption(option => option.setName('user').setDescription('User to add').setRequired(true)),
+      new SlashCommandBuilder()
+        .setName('unshare')
+        .setDescription('Remove a collaborator from this channel')
+        .addUserOption(option => option.setName('user').setDescription('User to remove').setRequired(true)),
       new SlashCommandBuilder()
         .setName('model')
         .setDescription('Set or view the Claude model for this channel')
@@ -908,6 +3254,8 @@ export class DiscordBot {
   }
 
   async stop(): Promise<void> {
+    this.scheduleManager.stop();
+    this.coalescedPrompts.forEach(batch => clearTimeout(batch.timer));
     this.client.destroy();
     if (this.orchestratorServer) {
       this.orchestratorServer.close();
@@ -945,8 +3293,8 @@ export class DiscordBot {
         });
       }
 
-      // Send message
-      const promptMsg = await channel.send(message);
+      // Send message (title and options are terminal text)
+      const promptMsg = await channel.send(redact(message));
 
       // Add reactions
       if (prompt.type === 'binary') {
@@ -972,9 +3320,21 @@ export class DiscordBot {
     }
   }
 
-  private async sendApprovalResponse(port: number, requestId: string, response: 'allow' | 'allow_session' | 'deny'): Promise<void> {
+  private async sendApprovalResponse(
+    channelId: string,
+    port: number,
+    requestId: string,
+    response: 'allow' | 'allow_session' | 'deny',
+    rule?: string,
+    message?: string
+  ): Promise<void> {
+    const secret = this.terminalManager.getChannelSecret(channelId);
+    if (!secret) {
+      throw new Error(`No approval secret for channel ${channelId}`);
+    }
+
     return new Promise((resolve, reject) => {
-      const postData = JSON.stringify({ requestId, response });
+      const postData = JSON.stringify({ requestId, response, rule, message });
       
       const options: http.RequestOptions = {
         hostname: '127.0.0.1',
@@ -984,6 +3344,7 @@ export class DiscordBot {
         headers: {
           'Content-Type': 'application/json',
           'Content-Length': Buffer.byteLength(postData),
+          ...buildAuthHeaders(secret, channelId, 'POST', '/approval-response', postData),
         },
       };
 
@@ -1001,3 +3362,36 @@ export class DiscordBot {
     });
   }
 }
+
+// Format a duration as "42s" or "3m 05s"
+// Text files get the same redaction as messages; binary files (images, archives) are sent as they are
+function redactFileContent(content: Buffer): Buffer {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return content;
+  }
+  return text.includes('\0') ? content : Buffer.from(redact(text), 'utf-8');
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}m ${seconds}s`;
+}
+
+function formatBudgetRefusal(exceeded: BudgetStatus[]): string {
+  const lines = exceeded.map(s =>
+    `• ${describeBudget(s.budget)} — ${formatBudgetAmount(s.budget.metric, s.used)} used, resets <t:${Math.floor(s.resetsAt.getTime() / 1000)}:R>`
+  );
+  return `🛑 **Budget reached.** Claude won't start new turns until it resets or an admin raises it with \`/budget\`:\n${lines.join('\n')}`;
+}
+
+function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return tokens.toString();
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1000000).toFixed(2)}M`;
+}
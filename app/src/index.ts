@@ -3,8 +3,12 @@
 import { DiscordBot } from './discord-bot.js';
 import { SessionManager } from './session-manager.js';
 import { TerminalManager } from './terminal-manager.js';
-import { Session, OAuthToken } from './types.js';
+import { WorktreeManager } from './worktree-manager.js';
+import { TokenStore } from './token-store.js';
+import { installConsoleRedaction, registerSecret, maskSecret } from './redact.js';
+import { Session, OAuthToken, TurnRunnerKind, WorktreeCleanupPolicy, ApprovalEscalation } from './types.js';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -16,13 +20,38 @@ const appDirectory = path.resolve(__dirname, '..');
 // Root directory is parent of app/
 const rootDirectory = path.resolve(appDirectory, '..');
 
+// State files holding secrets or other users' data, kept in the state directory out of Claude's reach
+const STATE_FILES = [
+  '.minion-sessions.json',
+  '.minion-channel-sessions.json',
+  '.minion-user-settings.json',
+  '.minion-oauth-tokens.json',
+  '.minion-audit.jsonl',
+  '.minion-usage.jsonl',
+  '.minion-budgets.json',
+  '.minion-approvals.json',
+  '.minion-approver-policies.json',
+];
+
 interface Config {
   discordBotToken: string;
   orchestratorPort: number;
+  orchestratorHost: string;
   workingDirectory: string;
   appDirectory: string;
+  stateDirectory: string;
   oauthTokens: OAuthToken[];
   categoryName: string;
+  turnRunner: TurnRunnerKind;
+  allowedWorkingRoot: string;
+  worktreeMode: boolean;
+  worktreeDirectory: string;
+  worktreeCleanup: WorktreeCleanupPolicy;
+  approvalEscalation: ApprovalEscalation | null;
+  adminUserIds: string[];
+  sessionTokenTtlHours: number;
+  scheduleTimezone?: string;
+  tokenEncryptionKey?: string;
 }
 
 function loadConfig(): Config {
@@ -41,9 +70,27 @@ function loadConfig(): Config {
 
   const discordBotToken = process.env.DISCORD_BOT_TOKEN;
   const orchestratorPort = parseInt(process.env.ORCHESTRATOR_PORT || '3000', 10);
+  // Only local MCP servers talk to the orchestrator, so bind to loopback unless told otherwise
+  const orchestratorHost = process.env.ORCHESTRATOR_HOST || '127.0.0.1';
   const defaultWorkingDir = rootDirectory;
   const workingDirectory = process.env.WORKING_DIRECTORY || defaultWorkingDir;
+  // Channels may only /cwd into directories under this root
+  const allowedWorkingRoot = path.resolve(process.env.ALLOWED_WORKING_ROOT || workingDirectory);
   const categoryName = process.env.CATEGORY_NAME || 'Claude Code';
+  const turnRunner = (process.env.TURN_RUNNER || 'pty').toLowerCase();
+  const worktreeMode = process.env.WORKTREE_MODE === 'true';
+  // Secret-holding state (sessions, encrypted tokens) lives outside the tree Claude works in
+  const stateDirectory = path.resolve(process.env.STATE_DIR || path.join(os.homedir(), '.claude-minion'));
+  const worktreeDirectory = path.resolve(process.env.WORKTREE_DIR || path.join(appDirectory, '.claude-minion', 'worktrees'));
+  const worktreeCleanup = (process.env.WORKTREE_CLEANUP || 'keep').toLowerCase();
+  const approvalEscalationMode = (process.env.APPROVAL_ESCALATION || '').toLowerCase();
+  const approverRoleId = process.env.APPROVER_ROLE_ID;
+  // Users who may mint invites; if unset, the first user to link is the admin
+  const adminUserIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  const sessionTokenTtlHours = parseFloat(process.env.SESSION_TOKEN_TTL_HOURS || '24');
+  const scheduleTimezone = process.env.SCHEDULE_TIMEZONE || undefined;
+  // Encrypts OAuth tokens added by DM (`token add`); without it they can only come from .env
+  const tokenEncryptionKey = process.env.TOKEN_ENCRYPTION_KEY || undefined;
 
   if (!discordBotToken) {
     console.error('Error: DISCORD_BOT_TOKEN is required');
@@ -51,6 +98,36 @@ function loadConfig(): Config {
     process.exit(1);
   }
 
+  if (turnRunner !== 'pty' && turnRunner !== 'spawn') {
+    console.error(`Error: TURN_RUNNER must be "pty" or "spawn" (got "${turnRunner}")`);
+    process.exit(1);
+  }
+
+  if (worktreeCleanup !== 'keep' && worktreeCleanup !== 'remove-if-clean' && worktreeCleanup !== 'remove') {
+    console.error(`Error: WORKTREE_CLEANUP must be "keep", "remove-if-clean" or "remove" (got "${worktreeCleanup}")`);
+    process.exit(1);
+  }
+
+  if (approvalEscalationMode && approvalEscalationMode !== 'owner' && approvalEscalationMode !== 'role') {
+    console.error(`Error: APPROVAL_ESCALATION must be "owner" or "role" (got "${approvalEscalationMode}")`);
+    process.exit(1);
+  }
+
+  if (approvalEscalationMode === 'role' && !approverRoleId) {
+    console.error('Error: APPROVER_ROLE_ID is required when APPROVAL_ESCALATION is "role"');
+    process.exit(1);
+  }
+
+  if (!(sessionTokenTtlHours > 0)) {
+    console.error(`Error: SESSION_TOKEN_TTL_HOURS must be a positive number (got "${process.env.SESSION_TOKEN_TTL_HOURS}")`);
+    process.exit(1);
+  }
+
+  if (tokenEncryptionKey && tokenEncryptionKey.length < 16) {
+    console.error('Error: TOKEN_ENCRYPTION_KEY must be at least 16 characters (e.g. `openssl rand -hex 32`)');
+    process.exit(1);
+  }
+
   // Parse OAuth tokens
   const oauthTokens: OAuthToken[] = [];
 
@@ -88,30 +165,57 @@ function loadConfig(): Config {
   return {
     discordBotToken,
     orchestratorPort,
+    orchestratorHost,
     workingDirectory,
     appDirectory,
+    stateDirectory,
     oauthTokens,
     categoryName,
+    turnRunner,
+    allowedWorkingRoot,
+    worktreeMode,
+    worktreeDirectory,
+    worktreeCleanup,
+    approvalEscalation: approvalEscalationMode
+      ? { mode: approvalEscalationMode as ApprovalEscalation['mode'], roleId: approverRoleId }
+      : null,
+    adminUserIds,
+    sessionTokenTtlHours,
+    scheduleTimezone,
+    tokenEncryptionKey,
   };
 }
 
 async function main() {
+  // Every log line (including Claude's mirrored terminal output) goes through redact()
+  installConsoleRedaction();
   console.log('═══════════════════════════════════════════════════════════');
   console.log('           Claude Code Minion - Discord Bot');
   console.log('═══════════════════════════════════════════════════════════');
 
   const config = loadConfig();
+  registerSecret(config.discordBotToken);
+  registerSecret(config.tokenEncryptionKey);
 
   console.log(`App directory: ${config.appDirectory}`);
   console.log(`Working directory: ${config.workingDirectory}`);
-  console.log(`Orchestrator port: ${config.orchestratorPort}`);
+  console.log(`State directory: ${config.stateDirectory}`);
+  console.log(`Allowed working root: ${config.allowedWorkingRoot}`);
+  console.log(`Orchestrator: ${config.orchestratorHost}:${config.orchestratorPort}`);
   console.log(`Category name: ${config.categoryName}`);
+  console.log(`Turn runner: ${config.turnRunner}`);
+  if (config.worktreeMode) {
+    console.log(`Worktree mode: on (${config.worktreeDirectory}, cleanup: ${config.worktreeCleanup})`);
+  }
+  if (config.approvalEscalation) {
+    console.log(`Approval escalation: ${config.approvalEscalation.mode}`);
+  }
 
   if (config.oauthTokens.length > 0) {
     console.log(`OAuth tokens configured: ${config.oauthTokens.length}`);
     for (const token of config.oauthTokens) {
       const defaultLabel = token.isDefault ? ' (default)' : '';
-      console.log(`  - ${token.alias}${defaultLabel}: ${token.token.substring(0, 20)}...`);
+      console.log(`  - ${token.alias}${defaultLabel}: ${maskSecret(token.token)}`);
     }
   }
 
@@ -120,47 +224,82 @@ async function main() {
     console.log(`Created working directory: ${config.workingDirectory}`);
   }
 
+  // Owner-only; files from before STATE_DIR existed are moved out of the working directory
+  fs.mkdirSync(config.stateDirectory, { recursive: true, mode: 0o700 });
+  fs.chmodSync(config.stateDirectory, 0o700);
+  for (const file of STATE_FILES) {
+    const legacyPath = path.join(config.workingDirectory, file);
+    const statePath = path.join(config.stateDirectory, file);
+    if (fs.existsSync(legacyPath) && !fs.existsSync(statePath)) {
+      try {
+        fs.renameSync(legacyPath, statePath);
+      } catch {
+        // Another filesystem: copy, then remove the readable original
+        fs.copyFileSync(legacyPath, statePath);
+        fs.unlinkSync(legacyPath);
+      }
+      fs.chmodSync(statePath, 0o600);
+      console.log(`Moved ${file} to ${config.stateDirectory}`);
+    }
+  }
+
   // Initialize managers
-  const sessionManager = new SessionManager(config.workingDirectory, config.oauthTokens);
+  const sessionManager = new SessionManager(
+    config.stateDirectory,
+    config.oauthTokens,
+    config.adminUserIds,
+    config.sessionTokenTtlHours,
+    config.tokenEncryptionKey ? new TokenStore(config.stateDirectory, config.tokenEncryptionKey) : null
+  );
 
   // Initialize Discord bot
   const bot = new DiscordBot(
     config.discordBotToken,
     config.workingDirectory,
     config.appDirectory,
+    config.stateDirectory,
     sessionManager,
     null as any,
-    config.oauthTokens,
-    config.categoryName
+    config.categoryName,
+    config.allowedWorkingRoot,
+    config.worktreeMode ? new WorktreeManager(config.worktreeDirectory, config.worktreeCleanup) : null,
+    config.approvalEscalation,
+    config.scheduleTimezone
   );
 
   // Create terminal manager
   const terminalManager = new TerminalManager(
     config.workingDirectory,
     config.appDirectory,
+    config.stateDirectory,
     (channelId, message) => bot.handleQueueProcess(channelId, message),
-    (channelId) => bot.handleAgentTurnComplete(channelId),
-    (channelId, prompt) => bot.handlePromptDetected(channelId, prompt)
+    (channelId, outcome) => bot.handleAgentTurnComplete(channelId, outcome),
+    (channelId, prompt) => bot.handlePromptDetected(channelId, prompt),
+    (channelId, event) => bot.handleStreamEvent(channelId, event),
+    config.turnRunner
   );
 
   // Wire up
   (bot as any).terminalManager = terminalManager;
 
-  // Check for existing session with a linked user
-  const existingSessions: Session[] = Array.from((sessionManager as any).sessions?.values() || []);
-  const existingUserSession = existingSessions.find((s) => s.userId && s.dmChannelId);
+  // Restore every linked user — no need to re-authenticate
+  const linkedSessions = sessionManager.getLinkedSessions();
 
-  let session: Session;
-  if (existingUserSession) {
-    // Reuse existing session — no need to re-authenticate
-    session = existingUserSession;
-    console.log(`\nRestored session for user ${session.userId} (token: ${session.token})`);
+  if (linkedSessions.length > 0) {
+    console.log(`\nRestored ${linkedSessions.length} linked user(s):`);
+    for (const linked of linkedSessions) {
+      const adminLabel = sessionManager.isAdmin(linked.userId) ? ' (admin)' : '';
+      console.log(`  - ${linked.userId}${adminLabel}`);
+    }
+    console.log('DM the bot `invite` as an admin to add more users.');
   } else {
-    // First run — create new session token
-    session = sessionManager.createSession('', '', config.workingDirectory);
+    // First run — reuse an unexpired unlinked token or create one
+    const session: Session = sessionManager.getUnlinkedSessions()[0] || sessionManager.createSession('', '', config.workingDirectory);
     console.log('');
     console.log('═══════════════════════════════════════════════════════════');
-    console.log('  SESSION TOKEN: ' + session.token);
+    // Straight to stdout: console output is redacted, and this token is meant to be copied
+    process.stdout.write(`  SESSION TOKEN: ${session.token}\n`);
+    console.log(`  Single use, expires ${session.expiresAt!.toLocaleString()}`);
     console.log('═══════════════════════════════════════════════════════════');
     console.log('');
     console.log('To connect:');
@@ -172,21 +311,23 @@ async function main() {
 
   // Start orchestrator
   process.env.ORCHESTRATOR_PORT = config.orchestratorPort.toString();
-  bot.startOrchestratorServer(config.orchestratorPort);
+  process.env.ORCHESTRATOR_HOST = config.orchestratorHost;
+  bot.startOrchestratorServer(config.orchestratorPort, config.orchestratorHost);
 
   // Start bot
   await bot.start();
 
-  // Send restart notification
-  if (existingUserSession?.userId && existingUserSession?.dmChannelId) {
+  // Send restart notifications
+  for (const linked of linkedSessions) {
+    if (!linked.dmChannelId) continue;
     try {
       await bot.sendDirectMessage(
-        existingUserSession.dmChannelId,
+        linked.dmChannelId,
         `🔄 **Bot restarted!**\n\nYour session has been restored automatically. No need to re-authenticate.\n\nYour existing channel sessions should continue working.`
       );
-      console.log(`Sent restart notification to user ${existingUserSession.userId}`);
+      console.log(`Sent restart notification to user ${linked.userId}`);
     } catch (error) {
-      console.error('Failed to send restart notification:', error);
+      console.error(`Failed to send restart notification to user ${linked.userId}:`, error);
     }
   }
 
@@ -6,13 +6,15 @@ import { z } from 'zod';
 import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
+import { buildAuthHeaders } from './orchestrator-auth.js';
 
 // Get configuration from environment
-const ORCHESTRATOR_URL = process.env.ORCHESTRATOR_URL || 'http://localhost:3000';
+const ORCHESTRATOR_URL = process.env.ORCHESTRATOR_URL || 'http://127.0.0.1:3000';
 const CHANNEL_ID = process.env.CHANNEL_ID || '';
+const ORCHESTRATOR_SECRET = process.env.ORCHESTRATOR_SECRET || '';
 
-if (!CHANNEL_ID) {
-  console.error('CHANNEL_ID environment variable is required');
+if (!CHANNEL_ID || !ORCHESTRATOR_SECRET) {
+  console.error('CHANNEL_ID and ORCHESTRATOR_SECRET environment variables are required');
   process.exit(1);
 }
 
@@ -29,6 +31,7 @@ async function sendToOrchestrator(data: any): Promise<void> {
       headers: {
         'Content-Type': 'application/json',
         'Content-Length': Buffer.byteLength(postData),
+        ...buildAuthHeaders(ORCHESTRATOR_SECRET, CHANNEL_ID, 'POST', '/', postData),
       },
     };
 
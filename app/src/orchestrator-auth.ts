@@ -0,0 +1,60 @@
+/**
+ * HMAC request signing between the bot and the MCP servers it spawns.
+ *
+ * Each channel gets its own secret, passed to its MCP servers as ORCHESTRATOR_SECRET.
+ * A request carries the channel ID, a timestamp and an HMAC-SHA256 of
+ * method, path, timestamp and body, so it can only speak for its own channel.
+ */
+
+import * as crypto from 'crypto';
+
+export const AUTH_HEADERS = {
+  channel: 'x-minion-channel',
+  timestamp: 'x-minion-timestamp',
+  signature: 'x-minion-signature',
+} as const;
+
+// Requests older (or newer) than this are rejected to limit replays
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export function generateSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function sign(secret: string, method: string, path: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret)
+    .update(`${method.toUpperCase()}\n${path}\n${timestamp}\n${body}`)
+    .digest('hex');
+}
+
+export function buildAuthHeaders(secret: string, channelId: string, method: string, path: string, body: string): Record<string, string> {
+  const timestamp = Date.now().toString();
+  return {
+    [AUTH_HEADERS.channel]: channelId,
+    [AUTH_HEADERS.timestamp]: timestamp,
+    [AUTH_HEADERS.signature]: sign(secret, method, path, timestamp, body),
+  };
+}
+
+// Channel ID the request claims to speak for (look up its secret, then verify)
+export function getRequestChannel(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const channelId = headers[AUTH_HEADERS.channel];
+  return typeof channelId === 'string' ? channelId : undefined;
+}
+
+export function verifyRequest(
+  secret: string,
+  method: string,
+  path: string,
+  headers: Record<string, string | string[] | undefined>,
+  body: string
+): boolean {
+  const timestamp = headers[AUTH_HEADERS.timestamp];
+  const signature = headers[AUTH_HEADERS.signature];
+  if (typeof timestamp !== 'string' || typeof signature !== 'string') return false;
+  if (Math.abs(Date.now() - Number(timestamp)) > MAX_CLOCK_SKEW_MS) return false;
+
+  const expected = Buffer.from(sign(secret, method, path, timestamp, body), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
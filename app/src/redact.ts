@@ -0,0 +1,70 @@
+import * as util from 'util';
+
+const REDACTED = '[REDACTED]';
+
+// Values shorter than this are too likely to match ordinary text
+const MIN_SECRET_LENGTH = 8;
+
+// Known secrets (OAuth tokens, bot token, per-channel signing secrets), longest first
+let secrets: string[] = [];
+
+// Secret shapes masked even when they were never registered
+const SECRET_PATTERNS: RegExp[] = [
+  /sk-ant-[A-Za-z0-9_-]{16,}/g,                                   // Anthropic API keys and OAuth tokens
+  /\b[MNO][A-Za-z\d_-]{23,27}\.[A-Za-z\d_-]{6}\.[A-Za-z\d_-]{27,}/g, // Discord bot tokens
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,                              // GitHub tokens
+  /\bgithub_pat_[A-Za-z0-9_]{40,}\b/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,                           // Slack tokens
+  /\bAKIA[0-9A-Z]{16}\b/g,                                        // AWS access key IDs
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+];
+
+// KEY=value / "key": "value" pairs whose name says they hold a secret; the name is kept
+// (counts such as "input_tokens: 1234" are left alone: no plural names, values need a letter)
+const SECRET_ASSIGNMENT = /\b([A-Za-z0-9_]*(?:TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|PRIVATE_?KEY)(?![A-Za-z])[A-Za-z0-9_]*)(["']?\s*[:=]\s*["']?)((?=[^\s"']*[A-Za-z])[^\s"']{8,})/gi;
+const BEARER = /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g;
+
+// Add a value to mask wherever it appears
+export function registerSecret(secret: string | undefined): void {
+  if (!secret || secret.length < MIN_SECRET_LENGTH || secrets.includes(secret)) return;
+  secrets = [...secrets, secret].sort((a, b) => b.length - a.length);
+}
+
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) {
+    if (result.includes(secret)) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result
+    .replace(SECRET_ASSIGNMENT, (match, name: string, separator: string, value: string) =>
+      value === REDACTED ? match : `${name}${separator}${REDACTED}`)
+    .replace(BEARER, `$1${REDACTED}`);
+}
+
+// Redact every string inside a JSON-like value (e.g. a tool call's input)
+export function redactValue<T>(value: T): T {
+  if (typeof value === 'string') return redact(value) as T;
+  if (Array.isArray(value)) return value.map(item => redactValue(item)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(v)])) as T;
+  }
+  return value;
+}
+
+// Safe to show: only the last four characters
+export function maskSecret(secret: string): string {
+  return secret.length > 12 ? `…${secret.slice(-4)}` : '…';
+}
+
+// Route console output through redact(); call once at startup
+export function installConsoleRedaction(): void {
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => original(redact(util.format(...args)));
+  }
+}
@@ -0,0 +1,136 @@
+import { Cron } from 'croner';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChannelSchedule } from './types.js';
+
+// Runs recurring prompts per channel and persists them to .minion-schedules.json
+export class ScheduleManager {
+  private schedules: Map<string, ChannelSchedule> = new Map(); // scheduleId -> schedule
+  private jobs: Map<string, Cron> = new Map(); // scheduleId -> running cron job
+  private schedulesFilePath: string;
+  private timezone: string | undefined;
+  private onFire: (schedule: ChannelSchedule) => Promise<void>;
+  private started = false;
+
+  constructor(workingDirectory: string, onFire: (schedule: ChannelSchedule) => Promise<void>, timezone?: string) {
+    this.schedulesFilePath = path.join(workingDirectory, '.minion-schedules.json');
+    this.onFire = onFire;
+    this.timezone = timezone;
+    this.loadSchedules();
+  }
+
+  private loadSchedules(): void {
+    try {
+      if (fs.existsSync(this.schedulesFilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.schedulesFilePath, 'utf-8')) as ChannelSchedule[];
+        for (const schedule of data) {
+          schedule.createdAt = new Date(schedule.createdAt);
+          if (schedule.lastRunAt) schedule.lastRunAt = new Date(schedule.lastRunAt);
+          this.schedules.set(schedule.id, schedule);
+        }
+        console.log(`[Schedule] Loaded ${this.schedules.size} schedule(s)`);
+      }
+    } catch (error) {
+      console.error('[Schedule] Error loading schedules:', error);
+    }
+  }
+
+  private saveSchedules(): void {
+    try {
+      fs.writeFileSync(this.schedulesFilePath, JSON.stringify(Array.from(this.schedules.values()), null, 2));
+    } catch (error) {
+      console.error('[Schedule] Error saving schedules:', error);
+    }
+  }
+
+  // Start all persisted schedules (call once Discord is ready)
+  start(): void {
+    this.started = true;
+    for (const schedule of this.schedules.values()) {
+      this.startJob(schedule);
+    }
+  }
+
+  stop(): void {
+    this.started = false;
+    this.jobs.forEach(job => job.stop());
+    this.jobs.clear();
+  }
+
+  private startJob(schedule: ChannelSchedule): void {
+    try {
+      // protect: a run still being handed off is not started twice
+      const job = new Cron(schedule.cron, { timezone: this.timezone, protect: true }, async () => {
+        schedule.lastRunAt = new Date();
+        this.saveSchedules();
+        console.log(`[Schedule] Firing ${schedule.id} in channel ${schedule.channelId}`);
+        try {
+          await this.onFire(schedule);
+        } catch (error) {
+          console.error(`[Schedule] Run of ${schedule.id} failed:`, error);
+        }
+      });
+      this.jobs.set(schedule.id, job);
+    } catch (error) {
+      console.error(`[Schedule] Could not start ${schedule.id} (${schedule.cron}):`, error);
+    }
+  }
+
+  // Throws if the cron expression is invalid
+  add(channelId: string, cron: string, prompt: string, whenBusy: 'skip' | 'queue', createdBy: string): ChannelSchedule {
+    // Validate before saving; croner throws on a bad pattern
+    const probe = new Cron(cron, { paused: true, timezone: this.timezone });
+    const [first, second] = probe.nextRuns(2);
+    probe.stop();
+    if (!first) {
+      throw new Error('it never fires');
+    }
+    // Six-field patterns allow seconds; don't let a schedule flood the channel
+    if (second && second.getTime() - first.getTime() < 60 * 1000) {
+      throw new Error('schedules can run at most once a minute');
+    }
+
+    const schedule: ChannelSchedule = {
+      id: crypto.randomBytes(3).toString('hex'),
+      channelId,
+      cron,
+      prompt,
+      whenBusy,
+      createdBy,
+      createdAt: new Date(),
+    };
+    this.schedules.set(schedule.id, schedule);
+    this.saveSchedules();
+    if (this.started) {
+      this.startJob(schedule);
+    }
+    return schedule;
+  }
+
+  list(channelId: string): ChannelSchedule[] {
+    return Array.from(this.schedules.values()).filter(s => s.channelId === channelId);
+  }
+
+  remove(channelId: string, scheduleId: string): boolean {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule || schedule.channelId !== channelId) {
+      return false;
+    }
+    this.jobs.get(scheduleId)?.stop();
+    this.jobs.delete(scheduleId);
+    this.schedules.delete(scheduleId);
+    this.saveSchedules();
+    return true;
+  }
+
+  removeChannel(channelId: string): void {
+    for (const schedule of this.list(channelId)) {
+      this.remove(channelId, schedule.id);
+    }
+  }
+
+  nextRun(scheduleId: string): Date | null {
+    return this.jobs.get(scheduleId)?.nextRun() ?? null;
+  }
+}
@@ -1,8 +1,14 @@
-import { v4 as uuidv4 } from 'uuid';
-import { Session, ChannelSession, OAuthToken, UserSettings } from './types.js';
+import { Session, ChannelSession, OAuthToken, UserSettings, WorktreeInfo, TokenRedeemResult, TokenCooldown } from './types.js';
+import { TokenStore } from './token-store.js';
+import { registerSecret } from './redact.js';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// Invalid token attempts allowed per user before a lockout
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
 export class SessionManager {
   private sessions: Map<string, Session> = new Map();
   private channelSessions: Map<string, ChannelSession> = new Map();
@@ -12,14 +18,43 @@ export class SessionManager {
   private channelSessionFilePath: string;
   private userSettingsFilePath: string;
   private nextMcpPort: number = 9100;
+  private adminUserIds: string[];  // From ADMIN_USER_IDS; empty means the first linked user is admin
+  private tokenTtlMs: number;      // How long unlinked tokens stay valid
+  private failedAttempts: Map<string, { count: number; lockedUntil?: number }> = new Map();  // userId -> invalid token attempts
+  private tokenCooldowns: Map<string, TokenCooldown> = new Map();  // OAuth token alias -> rate limit or auth failure
+  private tokenStore: TokenStore | null;  // Encrypted store for tokens added by DM; null without TOKEN_ENCRYPTION_KEY
 
-  constructor(dataDir: string = '.', oauthTokens: OAuthToken[] = []) {
+  constructor(
+    dataDir: string = '.',
+    oauthTokens: OAuthToken[] = [],
+    adminUserIds: string[] = [],
+    tokenTtlHours: number = 24,
+    tokenStore: TokenStore | null = null
+  ) {
     this.sessionFilePath = path.join(dataDir, '.minion-sessions.json');
     this.channelSessionFilePath = path.join(dataDir, '.minion-channel-sessions.json');
     this.userSettingsFilePath = path.join(dataDir, '.minion-user-settings.json');
-    this.oauthTokens = oauthTokens;
+    this.oauthTokens = [...oauthTokens];
+    oauthTokens.forEach(t => registerSecret(t.token));
+    this.adminUserIds = adminUserIds;
+    this.tokenTtlMs = tokenTtlHours * 60 * 60 * 1000;
+    this.tokenStore = tokenStore;
     this.loadSessions();
     this.loadUserSettings();
+    this.loadStoredTokens();
+  }
+
+  // Tokens added by DM; an alias already defined in .env wins
+  private loadStoredTokens(): void {
+    if (!this.tokenStore) return;
+    for (const token of this.tokenStore.load()) {
+      if (this.oauthTokens.some(t => t.alias === token.alias)) {
+        console.warn(`[Tokens] Ignoring stored token "${token.alias}": the alias is set in .env`);
+        continue;
+      }
+      registerSecret(token.token);
+      this.oauthTokens.push(token);
+    }
   }
 
   private loadSessions(): void {
@@ -29,6 +64,12 @@ export class SessionManager {
         for (const [key, value] of Object.entries(data)) {
           const session = value as Session;
           session.createdAt = new Date(session.createdAt);
+          if (session.expiresAt) session.expiresAt = new Date(session.expiresAt);
+          if (session.linkedAt) session.linkedAt = new Date(session.linkedAt);
+          // Drop unlinked tokens that expired (or predate expiry) so they can't be redeemed
+          if (!session.userId && (!session.expiresAt || session.expiresAt.getTime() < Date.now())) {
+            continue;
+          }
           this.sessions.set(key, session);
         }
       }
@@ -37,6 +78,12 @@ export class SessionManager {
         for (const [key, value] of Object.entries(data)) {
           const session = value as ChannelSession;
           session.createdAt = new Date(session.createdAt);
+          if (session.worktree) {
+            session.worktree.createdAt = new Date(session.worktree.createdAt);
+          }
+          // Sessions saved before channel ownership existed
+          session.ownerId = session.ownerId || session.userId;
+          session.collaborators = session.collaborators || [];
           this.channelSessions.set(key, session);
           // Track highest MCP port
           if (session.mcpPort >= this.nextMcpPort) {
@@ -94,8 +141,64 @@ export class SessionManager {
     return this.oauthTokens;
   }
 
-  // Get the OAuth token for a specific user (based on their selection or default)
+  // Whether tokens can be added by DM (TOKEN_ENCRYPTION_KEY is set)
+  canStoreOAuthTokens(): boolean {
+    return this.tokenStore !== null;
+  }
+
+  // Add or replace a DM-managed token; fails for aliases defined in .env
+  addOAuthToken(alias: string, token: string, addedBy: string): 'added' | 'replaced' | 'env' | 'no_store' {
+    if (!this.tokenStore) return 'no_store';
+    const existing = this.oauthTokens.find(t => t.alias === alias);
+    if (existing && !existing.addedBy) return 'env';
+
+    registerSecret(token);
+    if (existing) {
+      existing.token = token;
+      existing.addedBy = addedBy;
+    } else {
+      this.oauthTokens.push({ alias, token, addedBy });
+    }
+    // A new token for the alias gets a clean slate
+    this.tokenCooldowns.delete(alias);
+    this.tokenStore.save(this.oauthTokens.filter(t => t.addedBy));
+    console.log(`[Tokens] ${existing ? 'Replaced' : 'Added'} token ${alias} (by ${addedBy})`);
+    return existing ? 'replaced' : 'added';
+  }
+
+  removeOAuthToken(alias: string): 'removed' | 'not_found' | 'env' {
+    const index = this.oauthTokens.findIndex(t => t.alias === alias);
+    if (index === -1) return 'not_found';
+    if (!this.oauthTokens[index].addedBy) return 'env';
+
+    this.oauthTokens.splice(index, 1);
+    this.tokenCooldowns.delete(alias);
+    this.tokenStore?.save(this.oauthTokens.filter(t => t.addedBy));
+    console.log(`[Tokens] Removed token ${alias}`);
+    return 'removed';
+  }
+
+  // Get the OAuth token for a specific user: their selection (or the default), or the first
+  // healthy token in their fallback order while it is cooling down
   getOAuthTokenForUser(userId: string): OAuthToken | undefined {
+    const preferred = this.getPreferredOAuthToken(userId);
+    if (!preferred || !this.getTokenCooldown(preferred.alias)) {
+      return preferred;
+    }
+
+    const fallbacks = this.userSettings.get(userId)?.fallbackAliases || [];
+    for (const alias of fallbacks) {
+      const token = this.oauthTokens.find(t => t.alias === alias);
+      if (token && !this.getTokenCooldown(token.alias)) {
+        return token;
+      }
+    }
+    // Everything is cooling down; the turn will report the error
+    return preferred;
+  }
+
+  // The user's selected token (or the default), ignoring cooldowns
+  getPreferredOAuthToken(userId: string): OAuthToken | undefined {
     // If no tokens configured, return undefined
     if (this.oauthTokens.length === 0) {
       return undefined;
@@ -124,6 +227,7 @@ export class SessionManager {
     }
 
     const settings: UserSettings = {
+      ...this.userSettings.get(userId),
       userId,
       selectedTokenAlias: alias,
       updatedAt: new Date(),
@@ -134,19 +238,58 @@ export class SessionManager {
     return true;
   }
 
+  // Set the aliases tried, in order, while the user's token is cooling down
+  setUserFallbackAliases(userId: string, aliases: string[]): boolean {
+    if (aliases.some(alias => !this.oauthTokens.find(t => t.alias === alias))) {
+      return false;
+    }
+
+    const settings: UserSettings = {
+      ...this.userSettings.get(userId),
+      userId,
+      fallbackAliases: aliases,
+      updatedAt: new Date(),
+    };
+    this.userSettings.set(userId, settings);
+    this.saveUserSettings();
+    console.log(`[UserSettings] User ${userId} set fallback tokens: ${aliases.join(', ') || '(none)'}`);
+    return true;
+  }
+
+  // Skip a token until its rate limit resets (or a rejected token is retried)
+  markTokenCooldown(alias: string, cooldown: TokenCooldown): void {
+    this.tokenCooldowns.set(alias, cooldown);
+    console.log(`[Tokens] ${alias} cooling down until ${cooldown.until.toISOString()} (${cooldown.reason}): ${cooldown.detail}`);
+  }
+
+  clearTokenCooldown(alias: string): void {
+    this.tokenCooldowns.delete(alias);
+  }
+
+  getTokenCooldown(alias: string): TokenCooldown | undefined {
+    const cooldown = this.tokenCooldowns.get(alias);
+    if (cooldown && cooldown.until.getTime() <= Date.now()) {
+      this.tokenCooldowns.delete(alias);
+      return undefined;
+    }
+    return cooldown;
+  }
+
   // Get user settings
   getUserSettings(userId: string): UserSettings | undefined {
     return this.userSettings.get(userId);
   }
 
-  createSession(userId: string, dmChannelId: string, workingDirectory: string): Session {
-    const token = uuidv4().substring(0, 8).toUpperCase();
+  createSession(userId: string, dmChannelId: string, workingDirectory: string, invitedBy?: string): Session {
+    const token = crypto.randomBytes(8).toString('hex').toUpperCase();
     const session: Session = {
       token,
       userId,
       dmChannelId,
       createdAt: new Date(),
       workingDirectory,
+      invitedBy,
+      expiresAt: userId ? undefined : new Date(Date.now() + this.tokenTtlMs),
     };
     this.sessions.set(token, session);
     this.saveSessions();
@@ -157,6 +300,25 @@ export class SessionManager {
     return this.sessions.get(token.toUpperCase());
   }
 
+  // Sessions that a Discord user has linked by DMing the token
+  getLinkedSessions(): Session[] {
+    return Array.from(this.sessions.values()).filter(s => s.userId);
+  }
+
+  // Tokens nobody has linked yet and that can still be redeemed
+  getUnlinkedSessions(): Session[] {
+    const now = Date.now();
+    return Array.from(this.sessions.values()).filter(s => !s.userId && s.expiresAt && s.expiresAt.getTime() > now);
+  }
+
+  isAdmin(userId: string): boolean {
+    if (this.adminUserIds.length > 0) {
+      return this.adminUserIds.includes(userId);
+    }
+    const linked = this.getLinkedSessions().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return linked[0]?.userId === userId;
+  }
+
   getSessionByUserId(userId: string): Session | undefined {
     for (const session of this.sessions.values()) {
       if (session.userId === userId) {
@@ -177,6 +339,74 @@ export class SessionManager {
     return false;
   }
 
+  // Link a user with a token they DMed; tokens are single-use and expire.
+  // Invalid attempts count towards a per-user lockout.
+  redeemToken(token: string, userId: string, dmChannelId: string): TokenRedeemResult {
+    if (this.getLockoutRemainingMs(userId) > 0) {
+      return 'locked';
+    }
+
+    const session = this.sessions.get(token.toUpperCase());
+    let result: TokenRedeemResult;
+    if (!session) {
+      result = 'invalid';
+    } else if (session.userId) {
+      result = 'used';
+    } else if (!session.expiresAt || session.expiresAt.getTime() < Date.now()) {
+      result = 'expired';
+    } else {
+      session.userId = userId;
+      session.dmChannelId = dmChannelId;
+      session.linkedAt = new Date();
+      session.expiresAt = undefined;
+      this.failedAttempts.delete(userId);
+      this.saveSessions();
+      return 'linked';
+    }
+
+    const attempts = this.failedAttempts.get(userId) || { count: 0 };
+    attempts.count++;
+    if (attempts.count >= MAX_FAILED_ATTEMPTS) {
+      attempts.count = 0;
+      attempts.lockedUntil = Date.now() + LOCKOUT_MS;
+      console.warn(`[Session] User ${userId} locked out after ${MAX_FAILED_ATTEMPTS} invalid token attempts`);
+    }
+    this.failedAttempts.set(userId, attempts);
+    return attempts.lockedUntil && attempts.lockedUntil > Date.now() ? 'locked' : result;
+  }
+
+  getLockoutRemainingMs(userId: string): number {
+    const lockedUntil = this.failedAttempts.get(userId)?.lockedUntil;
+    return lockedUntil ? Math.max(lockedUntil - Date.now(), 0) : 0;
+  }
+
+  // Unlink a user (their token can't be reused); returns the removed session
+  removeSessionByUserId(userId: string): Session | undefined {
+    const session = this.getSessionByUserId(userId);
+    if (session) {
+      this.sessions.delete(session.token);
+      this.saveSessions();
+    }
+    return session;
+  }
+
+  // Cancel an unlinked token
+  removeUnlinkedSession(token: string): boolean {
+    const session = this.sessions.get(token.toUpperCase());
+    if (!session || session.userId) {
+      return false;
+    }
+    this.sessions.delete(session.token);
+    this.saveSessions();
+    return true;
+  }
+
+  // Channels a user owns or collaborates in
+  getChannelSessionsForUser(userId: string): ChannelSession[] {
+    return Array.from(this.channelSessions.values())
+      .filter(s => s.ownerId === userId || s.collaborators.includes(userId));
+  }
+
   createChannelSession(
     channelId: string,
     sessionToken: string,
@@ -184,6 +414,8 @@ export class SessionManager {
     terminalId: string
   ): ChannelSession {
     const mcpPort = this.nextMcpPort++;
+    // Channel settings survive a respawn of the terminal
+    const previous = this.channelSessions.get(channelId);
     const channelSession: ChannelSession = {
       channelId,
       sessionToken,
@@ -191,6 +423,12 @@ export class SessionManager {
       terminalId,
       mcpPort,
       createdAt: new Date(),
+      ownerId: previous?.ownerId || userId,
+      collaborators: previous?.collaborators || [],
+      workingDirectory: previous?.workingDirectory,
+      worktree: previous?.worktree,
+      approvalTimeoutMs: previous?.approvalTimeoutMs,
+      coalesceWindowMs: previous?.coalesceWindowMs,
     };
     this.channelSessions.set(channelId, channelSession);
     this.saveSessions();
@@ -201,6 +439,76 @@ export class SessionManager {
     return this.channelSessions.get(channelId);
   }
 
+  setChannelWorkingDirectory(channelId: string, workingDirectory: string): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session) {
+      return false;
+    }
+    session.workingDirectory = workingDirectory;
+    this.saveSessions();
+    console.log(`[ChannelSession] Channel ${channelId} working directory: ${workingDirectory}`);
+    return true;
+  }
+
+  setChannelWorktree(channelId: string, worktree: WorktreeInfo | undefined): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session) {
+      return false;
+    }
+    session.worktree = worktree;
+    this.saveSessions();
+    return true;
+  }
+
+  // Owner or collaborator
+  canUseChannel(channelId: string, userId: string): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session) {
+      return false;
+    }
+    return session.ownerId === userId || session.collaborators.includes(userId);
+  }
+
+  addCollaborator(channelId: string, userId: string): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session || session.ownerId === userId || session.collaborators.includes(userId)) {
+      return false;
+    }
+    session.collaborators.push(userId);
+    this.saveSessions();
+    return true;
+  }
+
+  removeCollaborator(channelId: string, userId: string): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session || !session.collaborators.includes(userId)) {
+      return false;
+    }
+    session.collaborators = session.collaborators.filter(id => id !== userId);
+    this.saveSessions();
+    return true;
+  }
+
+  setChannelApprovalTimeout(channelId: string, timeoutMs: number | undefined): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session) {
+      return false;
+    }
+    session.approvalTimeoutMs = timeoutMs;
+    this.saveSessions();
+    return true;
+  }
+
+  setChannelCoalesceWindow(channelId: string, windowMs: number | undefined): boolean {
+    const session = this.channelSessions.get(channelId);
+    if (!session) {
+      return false;
+    }
+    session.coalesceWindowMs = windowMs;
+    this.saveSessions();
+    return true;
+  }
+
   removeChannelSession(channelId: string): void {
     this.channelSessions.delete(channelId);
     this.saveSessions();
@@ -1,6 +1,20 @@
-import * as pty from 'node-pty';
 import { v4 as uuidv4 } from 'uuid';
-import { TerminalInstance, PromptInfo } from './types.js';
+import {
+  TerminalInstance,
+  PromptInfo,
+  OutputMode,
+  TurnProgressEvent,
+  TurnRunnerKind,
+  TurnResult,
+  TurnOutcome,
+  QueuedPromptInfo,
+  OAuthToken,
+  ClaudeSessionRecord,
+} from './types.js';
+import { createTurnRunner } from './turn-runner.js';
+import { claudeChildEnv } from './child-env.js';
+import { generateSecret } from './orchestrator-auth.js';
+import { redact, registerSecret, maskSecret } from './redact.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -14,10 +28,31 @@ async function initStripAnsi() {
 
 initStripAnsi();
 
-interface QueuedMessage {
-  input: string;
+// Pre-approved read-only tools passed to --allowedTools
+const READ_ONLY_TOOLS = [
+  'Read',
+  'Bash(ls *)', 'Bash(cat *)', 'Bash(find *)', 'Bash(head *)', 'Bash(tail *)',
+  'Bash(grep *)', 'Bash(wc *)', 'Bash(file *)', 'Bash(pwd)', 'Bash(which *)',
+  'Bash(tree *)', 'Bash(du *)', 'Bash(df *)', 'Bash(echo *)', 'Bash(stat *)',
+  'Bash(realpath *)', 'Bash(dirname *)', 'Bash(basename *)',
+  'Bash(git log *)', 'Bash(git diff *)', 'Bash(git status *)', 'Bash(git show *)',
+  'Bash(git branch *)', 'Bash(squeue *)', 'Bash(sinfo *)', 'Bash(sacct *)',
+];
+
+interface QueuedMessage extends QueuedPromptInfo {
   resolve: (success: boolean) => void;
-  oauthToken?: string;  // Store token at queue time so it's used when processed
+  oauthToken?: OAuthToken;  // Store token at queue time so it's used when processed
+}
+
+// Sessions kept per channel in the history (oldest are dropped)
+const MAX_SESSION_HISTORY = 50;
+
+// Who and what a running turn is for (reported in TurnOutcome)
+interface RunningTurn {
+  model: string;
+  author?: string;
+  tokenAlias?: string;
+  input?: string;
 }
 
 export class TerminalManager {
@@ -25,35 +60,57 @@ export class TerminalManager {
   private outputBuffers: Map<string, string[]> = new Map();
   private workingDirectory: string;
   private appDirectory: string;
+  private stateDirectory: string; // Owner-only, outside the working tree: holds the MCP configs with channel secrets
   private mcpConfigs: Map<string, string> = new Map(); // channelId -> mcpConfigPath
+  private channelSecrets: Map<string, string> = new Map(); // channelId -> secret signing MCP <-> orchestrator requests
   private sessionIds: Map<string, string> = new Map(); // channelId -> claude session UUID
   private sessionIdsFilePath: string; // Path to persist session IDs
+  private sessionHistory: Map<string, ClaudeSessionRecord[]> = new Map(); // channelId -> conversations, oldest first
+  private sessionHistoryFilePath: string; // Path to persist session history
   private busyChannels: Set<string> = new Set(); // channels with running claude commands
   private messageQueues: Map<string, QueuedMessage[]> = new Map(); // channelId -> queued messages
+  private pausedQueues: Set<string> = new Set(); // channels whose queue is held (/queue pause)
+  private nextQueueId: number = 1;
   private awaitingSessionId: Set<string> = new Set(); // channels waiting to capture session_id from JSON output
   private latestUsageStats: Map<string, any> = new Map(); // channelId -> latest usage stats from JSON output
   private latestResultText: Map<string, string> = new Map(); // channelId -> latest result text from JSON output
   // (removed interactive mode fields)
   private channelModels: Map<string, string> = new Map(); // channelId -> model override
+  private channelOutputModes: Map<string, OutputMode> = new Map(); // channelId -> output mode override
+  private interruptedChannels: Set<string> = new Set(); // channels whose running turn was interrupted
+  private latestResults: Map<string, any> = new Map(); // channelId -> full result JSON of the last turn
+  private runningTurns: Map<string, RunningTurn> = new Map(); // channelId -> model/author/token of the running turn
+  private resultWaiters: Map<string, (result: any) => void> = new Map(); // channelId -> sendInputWithJsonOutput resolver
+  private turnRunnerKind: TurnRunnerKind;
+  private toolUseNames: Map<string, string> = new Map(); // tool_use id -> tool name (for matching tool results)
   private pendingPrompts: Map<string, { terminalId: string; options: string[] }> = new Map(); // channelId -> pending prompt
   private promptCallback?: (channelId: string, prompt: PromptInfo) => Promise<void>;
   private onQueueProcessCallback?: (channelId: string, message: string) => Promise<void>;
-  private onAgentTurnCompleteCallback?: (channelId: string) => Promise<void>;
+  private onAgentTurnCompleteCallback?: (channelId: string, outcome: TurnOutcome) => Promise<void>;
+  private onStreamEventCallback?: (channelId: string, event: TurnProgressEvent) => Promise<void>;
 
   constructor(
     workingDirectory: string,
     appDirectory: string,
+    stateDirectory: string,
     onQueueProcess?: (channelId: string, message: string) => Promise<void>,
-    onAgentTurnComplete?: (channelId: string) => Promise<void>,
-    onPromptDetected?: (channelId: string, prompt: PromptInfo) => Promise<void>
+    onAgentTurnComplete?: (channelId: string, outcome: TurnOutcome) => Promise<void>,
+    onPromptDetected?: (channelId: string, prompt: PromptInfo) => Promise<void>,
+    onStreamEvent?: (channelId: string, event: TurnProgressEvent) => Promise<void>,
+    turnRunnerKind: TurnRunnerKind = 'pty'
   ) {
     this.workingDirectory = workingDirectory;
     this.appDirectory = appDirectory;
+    this.stateDirectory = stateDirectory;
     this.sessionIdsFilePath = path.join(workingDirectory, '.minion-claude-sessions.json');
+    this.sessionHistoryFilePath = path.join(workingDirectory, '.minion-claude-session-history.json');
     this.onQueueProcessCallback = onQueueProcess;
     this.onAgentTurnCompleteCallback = onAgentTurnComplete;
     this.promptCallback = onPromptDetected;
+    this.onStreamEventCallback = onStreamEvent;
+    this.turnRunnerKind = turnRunnerKind;
     this.loadSessionIds();
+    this.loadSessionHistory();
   }
 
   // Load persisted session IDs from disk
@@ -82,16 +139,75 @@ export class TerminalManager {
     }
   }
 
-  async spawnClaudeCode(channelId: string, mcpPort: number, oauthToken?: string): Promise<TerminalInstance> {
+  private loadSessionHistory(): void {
+    try {
+      if (fs.existsSync(this.sessionHistoryFilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.sessionHistoryFilePath, 'utf-8')) as Record<string, ClaudeSessionRecord[]>;
+        for (const [channelId, records] of Object.entries(data)) {
+          this.sessionHistory.set(channelId, records);
+        }
+        console.log(`[SessionIds] Loaded session history for ${this.sessionHistory.size} channel(s)`);
+      }
+    } catch (error) {
+      console.error('[SessionIds] Error loading session history:', error);
+    }
+  }
+
+  private saveSessionHistory(): void {
+    try {
+      const data: Record<string, ClaudeSessionRecord[]> = {};
+      this.sessionHistory.forEach((v, k) => data[k] = v);
+      fs.writeFileSync(this.sessionHistoryFilePath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('[SessionIds] Error saving session history:', error);
+    }
+  }
+
+  // Update the channel's history entry for a session, adding it if new
+  private touchSessionHistory(channelId: string, sessionId: string, cwd: string | undefined, update: (record: ClaudeSessionRecord) => void): void {
+    const records = this.sessionHistory.get(channelId) || [];
+    let record = records.find(r => r.sessionId === sessionId);
+    if (!record) {
+      const now = new Date().toISOString();
+      record = { sessionId, cwd, startedAt: now, lastActiveAt: now, turns: 0 };
+      records.push(record);
+      if (records.length > MAX_SESSION_HISTORY) {
+        records.splice(0, records.length - MAX_SESSION_HISTORY);
+      }
+      this.sessionHistory.set(channelId, records);
+    }
+    update(record);
+    this.saveSessionHistory();
+  }
+
+  // cwd: Optional per-channel working directory (defaults to the global working directory)
+  // approvalTimeoutMs: Optional per-channel approval timeout (defaults to APPROVAL_TIMEOUT_MS)
+  async spawnClaudeCode(
+    channelId: string,
+    mcpPort: number,
+    oauthToken?: string,
+    cwd?: string,
+    approvalTimeoutMs?: number
+  ): Promise<TerminalInstance> {
     const id = uuidv4();
 
-    // Create MCP config for this instance (stored in app directory)
-    const mcpConfigDir = path.join(this.appDirectory, '.claude-minion', channelId);
-    fs.mkdirSync(mcpConfigDir, { recursive: true });
+    // Create MCP config for this instance. It holds the channel secret, so it goes in the state
+    // directory where other channels' turns don't look, never in the shared app or working tree.
+    const mcpConfigPath = this.getMcpConfigFilePath(channelId);
+    fs.mkdirSync(path.dirname(mcpConfigPath), { recursive: true, mode: 0o700 });
+    // Older versions wrote it to app/.claude-minion/<channelId>
+    fs.rmSync(path.join(this.appDirectory, '.claude-minion', channelId, 'mcp-config.json'), { force: true });
 
-    const mcpConfigPath = path.join(mcpConfigDir, 'mcp-config.json');
     // Each channel gets a unique approval port (base 3001 + offset based on channel count)
     const approvalPort = 3001 + (this.terminals.size % 100);
+    // Fresh secret per spawn; MCP servers sign orchestrator requests with it
+    const secret = generateSecret();
+    registerSecret(secret);
+    this.channelSecrets.set(channelId, secret);
+    // A wildcard bind address is reached through loopback
+    const orchestratorHost = process.env.ORCHESTRATOR_HOST || '127.0.0.1';
+    const connectHost = orchestratorHost === '0.0.0.0' || orchestratorHost === '::' ? '127.0.0.1' : orchestratorHost;
+    const orchestratorUrl = `http://${connectHost}:${process.env.ORCHESTRATOR_PORT || 3000}`;
     
     const mcpConfig = {
       mcpServers: {
@@ -101,7 +217,8 @@ export class TerminalManager {
           env: {
             MCP_PORT: mcpPort.toString(),
             CHANNEL_ID: channelId,
-            ORCHESTRATOR_URL: `http://localhost:${process.env.ORCHESTRATOR_PORT || 3000}`,
+            ORCHESTRATOR_URL: orchestratorUrl,
+            ORCHESTRATOR_SECRET: secret,
           },
         },
         'discord-approval': {
@@ -109,159 +226,161 @@ export class TerminalManager {
           args: [path.join(this.appDirectory, 'dist', 'approval-server.js')],
           env: {
             CHANNEL_ID: channelId,
-            ORCHESTRATOR_URL: `http://localhost:${process.env.ORCHESTRATOR_PORT || 3000}`,
+            ORCHESTRATOR_URL: orchestratorUrl,
+            ORCHESTRATOR_SECRET: secret,
             APPROVAL_PORT: approvalPort.toString(),
-            APPROVAL_TIMEOUT_MS: '300000', // 5 minutes
+            APPROVAL_TIMEOUT_MS: (approvalTimeoutMs || this.getDefaultApprovalTimeout()).toString(),
           },
         },
       },
     };
-    fs.writeFileSync(mcpConfigPath, JSON.stringify(mcpConfig, null, 2));
+    // The config holds the channel secret: owner-only
+    fs.writeFileSync(mcpConfigPath, JSON.stringify(mcpConfig, null, 2), { mode: 0o600 });
+    fs.chmodSync(mcpConfigPath, 0o600);
 
     // Store MCP config path for this channel
     this.mcpConfigs.set(channelId, mcpConfigPath);
     // Session ID will be captured from first command's JSON output
 
-    // Spawn a shell for running claude commands
-    const shell = process.platform === 'win32' ? 'powershell.exe' : 'bash';
-
-    // Build environment with optional OAuth token override
-    const spawnEnv: Record<string, string | undefined> = {
-      ...process.env,
+    // Build environment without the bot's secrets, with an optional OAuth token
+    const spawnEnv = claudeChildEnv({
       TERM: 'xterm-256color',
       MCP_PORT: mcpPort.toString(),
       CHANNEL_ID: channelId,
-    };
+    });
 
-    // If a specific OAuth token is provided, use it instead of the inherited one
+    // Tokens from .env are stripped above; the channel's own token is the only one the terminal gets
     if (oauthToken) {
       spawnEnv.CLAUDE_CODE_OAUTH_TOKEN = oauthToken;
-      console.log(`[Terminal ${channelId}] Using specific OAuth token (${oauthToken.substring(0, 15)}...)`);
+      console.log(`[Terminal ${channelId}] Using specific OAuth token (${maskSecret(oauthToken)})`);
     }
 
-    const ptyProcess = pty.spawn(shell, [], {
-      name: 'xterm-256color',
-      cols: 120,
-      rows: 40,
-      cwd: this.workingDirectory,
-      env: spawnEnv,
+    // Runner callbacks only fire after spawn returns, so they can reference `terminal`
+    const terminalCwd = cwd || this.workingDirectory;
+    const runner = await createTurnRunner(this.turnRunnerKind, { cwd: terminalCwd, env: spawnEnv }, {
+      onData: (data) => this.handleTerminalData(terminal, data),
+      onLine: (line) => this.handleStreamLine(channelId, stripAnsi ? stripAnsi(line) : line),
+      onTurnExit: (result) => this.handleTurnExit(channelId, result),
+      onExit: (exitCode) => {
+        console.log(`Terminal ${id} exited with code ${exitCode}`);
+        this.terminals.delete(id);
+        this.outputBuffers.delete(id);
+      },
     });
 
     const terminal: TerminalInstance = {
       id,
       channelId,
-      pty: ptyProcess,
+      runner,
       mcpPort,
+      cwd: terminalCwd,
       lastActivity: new Date(),
     };
 
     this.terminals.set(id, terminal);
     this.outputBuffers.set(id, []);
 
-    // Collect output and log for debugging
-    ptyProcess.onData((data: string) => {
-      const buffer = this.outputBuffers.get(id);
-      if (buffer) {
-        buffer.push(data);
-        // Keep only last 1000 lines
-        if (buffer.length > 1000) {
-          buffer.shift();
-        }
-      }
-      terminal.lastActivity = new Date();
-      // Debug: log terminal output
-      const cleanData = stripAnsi ? stripAnsi(data) : data;
-      if (cleanData.trim()) {
-        console.log(`[Terminal ${channelId}] ${cleanData}`);
-      }
+    // Wait a moment for shell to initialize
+    if (terminal.runner.kind === 'pty') {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
 
-      // Extract session_id from output
-      if (this.awaitingSessionId.has(channelId)) {
-        // JSON format: "session_id": "uuid"
-        const jsonSessionMatch = cleanData.match(/"session_id"\s*:\s*"([^"]+)"/);
-        // Interactive format: session ID might appear as UUID pattern in startup output
-        const uuidMatch = cleanData.match(/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
-        const sessionMatch = jsonSessionMatch || uuidMatch;
-        if (sessionMatch) {
-          const extractedSessionId = sessionMatch[1];
-          this.sessionIds.set(channelId, extractedSessionId);
-          this.awaitingSessionId.delete(channelId);
-          this.saveSessionIds(); // Persist to disk for restart recovery
-          console.log(`[Session] Captured session ID for channel ${channelId}: ${extractedSessionId.substring(0, 8)}...`);
-        }
+    return terminal;
+  }
+
+  // Mirror output into the debug buffer and watch for session IDs and prompts
+  private handleTerminalData(terminal: TerminalInstance, data: string): void {
+    const channelId = terminal.channelId;
+    const buffer = this.outputBuffers.get(terminal.id);
+    if (buffer) {
+      // Redact before buffering: the buffer is mirrored to Discord by /debug
+      buffer.push(redact(data));
+      // Keep only last 1000 lines
+      if (buffer.length > 1000) {
+        buffer.shift();
       }
+    }
+    terminal.lastActivity = new Date();
+    // Debug: log terminal output
+    const cleanData = stripAnsi ? stripAnsi(data) : data;
+    if (cleanData.trim()) {
+      console.log(`[Terminal ${channelId}] ${redact(cleanData)}`);
+    }
 
-      // Extract usage stats from JSON result
-      // Look for {"type":"result"...} and parse it
-      const resultStart = cleanData.indexOf('{"type":"result"');
-      if (resultStart !== -1) {
-        // Find matching closing brace
-        let braceCount = 0;
-        let endIdx = -1;
-        for (let i = resultStart; i < cleanData.length; i++) {
-          if (cleanData[i] === '{') braceCount++;
-          if (cleanData[i] === '}') braceCount--;
-          if (braceCount === 0) {
-            endIdx = i + 1;
-            break;
-          }
-        }
-        if (endIdx !== -1) {
-          try {
-            const resultJson = JSON.parse(cleanData.substring(resultStart, endIdx));
-            if (resultJson.usage) {
-              this.latestUsageStats.set(channelId, resultJson.usage);
-              console.log(`[Usage] Captured usage stats for channel ${channelId}`);
-            }
-            if (resultJson.result) {
-              this.latestResultText.set(channelId, resultJson.result);
-            }
-          } catch (e) {
-            // JSON not complete yet, ignore
-          }
-        }
+    // Extract session_id from output
+    if (this.awaitingSessionId.has(channelId)) {
+      // JSON format: "session_id": "uuid"
+      const jsonSessionMatch = cleanData.match(/"session_id"\s*:\s*"([^"]+)"/);
+      // Interactive format: session ID might appear as UUID pattern in startup output
+      const uuidMatch = cleanData.match(/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
+      const sessionMatch = jsonSessionMatch || uuidMatch;
+      if (sessionMatch) {
+        const extractedSessionId = sessionMatch[1];
+        this.sessionIds.set(channelId, extractedSessionId);
+        this.awaitingSessionId.delete(channelId);
+        this.saveSessionIds(); // Persist to disk for restart recovery
+        this.touchSessionHistory(channelId, extractedSessionId, terminal.cwd, () => {});
+        console.log(`[Session] Captured session ID for channel ${channelId}: ${extractedSessionId.substring(0, 8)}...`);
       }
+    }
 
-      // Detect interactive prompts in terminal output
-      this.detectPrompts(channelId, cleanData, id);
-
-      // Detect when Claude command finishes using sentinel marker
-      if (this.busyChannels.has(channelId)) {
-        const lines = cleanData.split('\n');
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          if (trimmedLine === '___CLAUDE_DONE___') {
-            this.busyChannels.delete(channelId);
-            console.log(`[Terminal ${channelId}] Claude command finished`);
-
-            if (this.onAgentTurnCompleteCallback) {
-              this.onAgentTurnCompleteCallback(channelId).catch(err => {
-                console.error('[AgentTurnComplete] Error in callback:', err);
-              });
-            }
-
-            this.processQueue(channelId);
-            break;
-          }
+    // Detect interactive prompts in terminal output
+    this.detectPrompts(channelId, cleanData, terminal.id);
+  }
+
+  // Called by the runner when a claude turn exits
+  private handleTurnExit(channelId: string, result: TurnResult): void {
+    const interrupted = this.interruptedChannels.delete(channelId);
+    const turn = this.runningTurns.get(channelId);
+    this.runningTurns.delete(channelId);
+    console.log(`[Terminal ${channelId}] Claude command finished (exit code ${result.exitCode})`);
+
+    const sessionId = this.sessionIds.get(channelId);
+    if (sessionId && turn) {
+      this.touchSessionHistory(channelId, sessionId, this.getTerminalByChannelId(channelId)?.cwd, record => {
+        record.turns++;
+        record.lastActiveAt = new Date().toISOString();
+        if (turn.input !== undefined) {
+          const preview = redact(turn.input).replace(/\s+/g, ' ').trim();
+          record.lastPrompt = preview.length > 100 ? preview.substring(0, 97) + '...' : preview;
         }
-      }
-    });
+      });
+    }
 
-    ptyProcess.onExit(({ exitCode }) => {
-      console.log(`Terminal ${id} exited with code ${exitCode}`);
-      this.terminals.delete(id);
-      this.outputBuffers.delete(id);
-    });
+    const waiter = this.resultWaiters.get(channelId);
+    if (waiter) {
+      this.resultWaiters.delete(channelId);
+      waiter(this.latestResults.get(channelId));
+    }
 
-    // Wait a moment for shell to initialize
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // The channel stays busy until the bot has handled the outcome, so a retry
+    // (see retryTurn) runs before anything queued behind it
+    const finish = () => {
+      this.busyChannels.delete(channelId);
+      this.processQueue(channelId);
+    };
+    if (this.onAgentTurnCompleteCallback) {
+      const outcome: TurnOutcome = { ...result, interrupted, ...turn, result: this.latestResults.get(channelId) };
+      this.onAgentTurnCompleteCallback(channelId, outcome).catch(err => {
+        console.error('[AgentTurnComplete] Error in callback:', err);
+      }).finally(finish);
+    } else {
+      finish();
+    }
+  }
 
-    return terminal;
+  // Run a failed prompt again (e.g. on another OAuth token) before the rest of the queue
+  retryTurn(channelId: string, input: string, oauthToken?: OAuthToken, author?: string): void {
+    const queue = this.messageQueues.get(channelId) || [];
+    queue.unshift({ id: this.nextQueueId++, input, author, enqueuedAt: new Date(), resolve: () => {}, oauthToken });
+    this.messageQueues.set(channelId, queue);
+    console.log(`[Queue] Retrying turn for channel ${channelId}${oauthToken ? ` on token ${oauthToken.alias}` : ''}`);
   }
 
   // Queue a message to be sent to Claude (handles busy state)
   // oauthToken: Optional OAuth token to use for this command (enables dynamic token switching)
-  async sendInput(terminalId: string, input: string, oauthToken?: string): Promise<boolean> {
+  // author: Discord user ID shown in /queue
+  async sendInput(terminalId: string, input: string, oauthToken?: OAuthToken, author?: string): Promise<boolean> {
     const terminal = this.terminals.get(terminalId);
     if (!terminal) {
       console.error(`Terminal ${terminalId} not found`);
@@ -270,23 +389,23 @@ export class TerminalManager {
 
     const channelId = terminal.channelId;
 
-    // If channel is busy, queue the message
-    if (this.busyChannels.has(channelId)) {
-      console.log(`[Queue] Channel ${channelId} is busy, queuing message`);
+    // If channel is busy or its queue is paused, queue the message
+    if (this.busyChannels.has(channelId) || this.pausedQueues.has(channelId)) {
+      console.log(`[Queue] Channel ${channelId} is ${this.busyChannels.has(channelId) ? 'busy' : 'paused'}, queuing message`);
       return new Promise((resolve) => {
         const queue = this.messageQueues.get(channelId) || [];
-        queue.push({ input, resolve, oauthToken });  // Store token with queued message
+        // Store token with queued message
+        queue.push({ id: this.nextQueueId++, input, author, enqueuedAt: new Date(), resolve, oauthToken });
         this.messageQueues.set(channelId, queue);
       });
     }
 
     // Send immediately
-    return this.sendInputNow(terminalId, input, oauthToken);
+    return this.sendInputNow(terminalId, input, oauthToken, author);
   }
 
   // Actually send input to Claude (internal method)
-  // In interactive mode: first call launches `claude` process, subsequent calls type into the existing prompt
-  private sendInputNow(terminalId: string, input: string, oauthToken?: string): boolean {
+  private sendInputNow(terminalId: string, input: string, oauthToken?: OAuthToken, author?: string): boolean {
     const terminal = this.terminals.get(terminalId);
     if (!terminal) {
       console.error(`Terminal ${terminalId} not found`);
@@ -300,47 +419,57 @@ export class TerminalManager {
       return false;
     }
 
-    // Mark channel as busy
-    this.busyChannels.add(channelId);
-
-    // Escape the input for shell
-    const escapedInput = input
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\$/g, '\\$')
-      .replace(/`/g, '\\`')
-      .replace(/\n/g, ' ')
-      .replace(/\r/g, '');
-
     const existingSessionId = this.sessionIds.get(channelId);
-    const model = this.channelModels.get(channelId) || process.env.CLAUDE_MODEL || 'claude-sonnet-4-5-20250929';
-    const tokenPrefix = oauthToken ? `CLAUDE_CODE_OAUTH_TOKEN="${oauthToken}" ` : '';
-
-    // Pre-approved read-only tools (comma-separated in single string)
-    const allowedToolsList = [
-      'Read',
-      'Bash(ls *)', 'Bash(cat *)', 'Bash(find *)', 'Bash(head *)', 'Bash(tail *)',
-      'Bash(grep *)', 'Bash(wc *)', 'Bash(file *)', 'Bash(pwd)', 'Bash(which *)',
-      'Bash(tree *)', 'Bash(du *)', 'Bash(df *)', 'Bash(echo *)', 'Bash(stat *)',
-      'Bash(realpath *)', 'Bash(dirname *)', 'Bash(basename *)',
-      'Bash(git log *)', 'Bash(git diff *)', 'Bash(git status *)', 'Bash(git show *)',
-      'Bash(git branch *)', 'Bash(squeue *)', 'Bash(sinfo *)', 'Bash(sacct *)',
-    ].join(',');
-    const allowedTools = `"${allowedToolsList}"`;
-
-    const permissionTool = '--permission-prompt-tool mcp__discord-approval__tool-approval';
-
-    let claudeCmd: string;
+    const model = this.getChannelModel(channelId);
+    const outputMode = this.getChannelOutputMode(channelId);
+
+    const args = ['-p', input, '--model', model, '--output-format', outputMode];
+    // stream-json requires --verbose when combined with -p
+    if (outputMode === 'stream-json') {
+      args.push('--verbose');
+    }
+    args.push(
+      '--allowedTools', READ_ONLY_TOOLS.join(','),
+      '--permission-prompt-tool', 'mcp__discord-approval__tool-approval',
+    );
     if (existingSessionId) {
-      claudeCmd = `${tokenPrefix}claude -p "${escapedInput}" --model ${model} --output-format json --allowedTools ${allowedTools} ${permissionTool} --resume "${existingSessionId}" --mcp-config "${mcpConfigPath}" ; echo "___CLAUDE_DONE___"`;
-      console.log(`[Sending to Claude] claude -p "..." --model ${model} --resume "${existingSessionId.substring(0, 8)}..."`);
-    } else {
-      claudeCmd = `${tokenPrefix}claude -p "${escapedInput}" --model ${model} --output-format json --allowedTools ${allowedTools} ${permissionTool} --mcp-config "${mcpConfigPath}" ; echo "___CLAUDE_DONE___"`;
+      args.push('--resume', existingSessionId);
+    }
+    args.push('--mcp-config', mcpConfigPath);
+
+    return this.runTurn(terminal, args, !!existingSessionId, { model, author, tokenAlias: oauthToken?.alias, input }, oauthToken?.token, existingSessionId
+      ? `--model ${model} --output-format ${outputMode} --resume "${existingSessionId.substring(0, 8)}..."`
+      : `--model ${model} --output-format ${outputMode} (new conversation)`);
+  }
+
+  // Start a claude turn on the terminal's runner
+  // resuming: args continue an existing session (--resume), so there is no new session ID to capture
+  private runTurn(terminal: TerminalInstance, args: string[], resuming: boolean, turn: RunningTurn, oauthToken: string | undefined, logSummary: string): boolean {
+    const channelId = terminal.channelId;
+    if (!resuming) {
       this.awaitingSessionId.add(channelId);
-      console.log(`[Sending to Claude] claude -p "..." --model ${model} (new conversation)`);
     }
 
-    terminal.pty.write(claudeCmd + '\r');
+    // Mark channel as busy
+    this.busyChannels.add(channelId);
+    this.interruptedChannels.delete(channelId);
+    this.latestResults.delete(channelId);
+    this.runningTurns.set(channelId, turn);
+
+    const env: Record<string, string> = {};
+    if (oauthToken) {
+      env.CLAUDE_CODE_OAUTH_TOKEN = oauthToken;
+    }
+
+    console.log(`[Sending to Claude] (${terminal.runner.kind}) claude -p "..." ${logSummary}`);
+    try {
+      terminal.runner.run({ command: 'claude', args, env });
+    } catch (error) {
+      console.error(`[Terminal ${channelId}] Failed to start turn:`, error);
+      this.busyChannels.delete(channelId);
+      this.runningTurns.delete(channelId);
+      return false;
+    }
     terminal.lastActivity = new Date();
     return true;
   }
@@ -348,14 +477,14 @@ export class TerminalManager {
   // Process next message in the queue for a channel
   private processQueue(channelId: string): void {
     const queue = this.messageQueues.get(channelId);
-    if (!queue || queue.length === 0) {
+    if (!queue || queue.length === 0 || this.pausedQueues.has(channelId)) {
       return;
     }
 
     const terminal = this.getTerminalByChannelId(channelId);
     if (!terminal) {
       // Clear queue if terminal is gone
-      this.messageQueues.delete(channelId);
+      this.dropQueue(channelId);
       return;
     }
 
@@ -370,7 +499,7 @@ export class TerminalManager {
     }
 
     // Pass the stored OAuth token (from when message was queued)
-    const success = this.sendInputNow(terminal.id, next.input, next.oauthToken);
+    const success = this.sendInputNow(terminal.id, next.input, next.oauthToken, next.author);
     next.resolve(success);
   }
 
@@ -384,6 +513,66 @@ export class TerminalManager {
     return this.messageQueues.get(channelId)?.length || 0;
   }
 
+  // Queued prompts in the order they will run
+  listQueue(channelId: string): QueuedPromptInfo[] {
+    return (this.messageQueues.get(channelId) || [])
+      .map(({ id, input, author, enqueuedAt }) => ({ id, input, author, enqueuedAt }));
+  }
+
+  // Remove a queued prompt; its sender is resolved as handled
+  removeQueued(channelId: string, id: number): QueuedPromptInfo | undefined {
+    const queue = this.messageQueues.get(channelId) || [];
+    const index = queue.findIndex(m => m.id === id);
+    if (index === -1) return undefined;
+    const [removed] = queue.splice(index, 1);
+    removed.resolve(true);
+    console.log(`[Queue] Removed message ${id} from channel ${channelId}`);
+    return removed;
+  }
+
+  // Replace the text of a queued prompt (used when later messages are merged into it)
+  updateQueued(channelId: string, id: number, input: string): boolean {
+    const message = this.messageQueues.get(channelId)?.find(m => m.id === id);
+    if (!message) return false;
+    message.input = input;
+    return true;
+  }
+
+  // Move a queued prompt to a 1-based position
+  moveQueued(channelId: string, id: number, position: number): boolean {
+    const queue = this.messageQueues.get(channelId) || [];
+    const index = queue.findIndex(m => m.id === id);
+    if (index === -1) return false;
+    const [message] = queue.splice(index, 1);
+    queue.splice(Math.min(Math.max(position - 1, 0), queue.length), 0, message);
+    return true;
+  }
+
+  pauseQueue(channelId: string): void {
+    this.pausedQueues.add(channelId);
+    console.log(`[Queue] Paused queue for channel ${channelId}`);
+  }
+
+  resumeQueue(channelId: string): void {
+    this.pausedQueues.delete(channelId);
+    console.log(`[Queue] Resumed queue for channel ${channelId}`);
+    if (!this.busyChannels.has(channelId)) {
+      this.processQueue(channelId);
+    }
+  }
+
+  isQueuePaused(channelId: string): boolean {
+    return this.pausedQueues.has(channelId);
+  }
+
+  // Drop every queued prompt; senders are resolved as handled so nobody retries them
+  private dropQueue(channelId: string): number {
+    const queue = this.messageQueues.get(channelId) || [];
+    this.messageQueues.delete(channelId);
+    queue.forEach(m => m.resolve(true));
+    return queue.length;
+  }
+
   sendRawInput(terminalId: string, input: string): boolean {
     const terminal = this.terminals.get(terminalId);
     if (!terminal) {
@@ -391,9 +580,9 @@ export class TerminalManager {
       return false;
     }
 
-    terminal.pty.write(input);
+    const written = terminal.runner.write(input);
     terminal.lastActivity = new Date();
-    return true;
+    return written;
   }
 
   // Send interrupt (Ctrl+C) to stop current claude command
@@ -404,10 +593,13 @@ export class TerminalManager {
       return false;
     }
 
-    // Send Ctrl+C
-    terminal.pty.write('\x03');
+    // Ctrl+C for the PTY runner, SIGINT for the spawn runner
+    if (this.busyChannels.has(terminal.channelId)) {
+      this.interruptedChannels.add(terminal.channelId);
+    }
+    const sent = terminal.runner.interrupt();
     terminal.lastActivity = new Date();
-    return true;
+    return sent;
   }
 
   getOutput(terminalId: string, lines: number = 50): string[] {
@@ -440,7 +632,7 @@ export class TerminalManager {
       return false;
     }
 
-    terminal.pty.kill();
+    terminal.runner.kill();
     this.terminals.delete(terminalId);
     this.outputBuffers.delete(terminalId);
     return true;
@@ -464,8 +656,7 @@ export class TerminalManager {
       return false;
     }
 
-    terminal.pty.resize(cols, rows);
-    return true;
+    return terminal.runner.resize(cols, rows);
   }
 
   // Reset conversation for a channel (clears session so next message starts fresh)
@@ -474,16 +665,56 @@ export class TerminalManager {
     this.awaitingSessionId.delete(channelId);
     this.saveSessionIds();
     this.busyChannels.delete(channelId);
-    this.messageQueues.delete(channelId);
+    this.dropQueue(channelId);
     console.log(`[Reset] Cleared session for channel ${channelId}, next message will start new conversation`);
   }
 
+  // Sessions this channel has had, newest first
+  getSessionHistory(channelId: string): ClaudeSessionRecord[] {
+    return [...(this.sessionHistory.get(channelId) || [])].reverse();
+  }
+
+  // Continue an earlier conversation from the history on the next message.
+  // Accepts a full session ID or a unique prefix (at least 8 characters).
+  resumeSession(channelId: string, sessionIdOrPrefix: string): ClaudeSessionRecord | 'not_found' | 'ambiguous' | 'wrong_cwd' {
+    const query = sessionIdOrPrefix.trim().toLowerCase();
+    const records = this.sessionHistory.get(channelId) || [];
+    const exact = records.find(r => r.sessionId === query);
+    const matches = exact ? [exact] : query.length >= 8 ? records.filter(r => r.sessionId.startsWith(query)) : [];
+    if (matches.length === 0) return 'not_found';
+    if (matches.length > 1) return 'ambiguous';
+
+    const record = matches[0];
+    const cwd = this.getTerminalByChannelId(channelId)?.cwd;
+    if (record.cwd && cwd && record.cwd !== cwd) return 'wrong_cwd';
+    this.sessionIds.set(channelId, record.sessionId);
+    this.awaitingSessionId.delete(channelId);
+    this.saveSessionIds();
+    console.log(`[Session] Channel ${channelId} resumed session ${record.sessionId.substring(0, 8)}...`);
+    return record;
+  }
+
+  // Continue a session started outside the bot (e.g. plain `claude` in a terminal) on the next message
+  attachSession(channelId: string, sessionId: string, cwd: string): void {
+    this.sessionIds.set(channelId, sessionId);
+    this.awaitingSessionId.delete(channelId);
+    this.saveSessionIds();
+    this.touchSessionHistory(channelId, sessionId, cwd, () => {});
+    console.log(`[Session] Channel ${channelId} attached to session ${sessionId.substring(0, 8)}...`);
+  }
+
+  // Forget a deleted channel's conversations
+  removeSessionHistory(channelId: string): void {
+    if (this.sessionHistory.delete(channelId)) {
+      this.saveSessionHistory();
+    }
+  }
+
   // Clear busy state for a channel (call after interrupt)
   clearBusyState(channelId: string): void {
     this.busyChannels.delete(channelId);
     // Also clear message queue since queued messages are likely no longer relevant
-    const queueLength = this.messageQueues.get(channelId)?.length || 0;
-    this.messageQueues.delete(channelId);
+    const queueLength = this.dropQueue(channelId);
     console.log(`[Interrupt] Cleared busy state for channel ${channelId}, dropped ${queueLength} queued message(s)`);
   }
 
@@ -527,6 +758,130 @@ export class TerminalManager {
     console.log(`[Model] Cleared model override for channel ${channelId}, using default`);
   }
 
+  // Set output mode for a channel
+  setChannelOutputMode(channelId: string, mode: OutputMode): void {
+    this.channelOutputModes.set(channelId, mode);
+    console.log(`[OutputMode] Set output mode for channel ${channelId}: ${mode}`);
+  }
+
+  // Get output mode for a channel (CLAUDE_OUTPUT_FORMAT sets the default)
+  getChannelOutputMode(channelId: string): OutputMode {
+    const override = this.channelOutputModes.get(channelId);
+    if (override) return override;
+    return process.env.CLAUDE_OUTPUT_FORMAT === 'stream-json' ? 'stream-json' : 'json';
+  }
+
+  private getMcpConfigFilePath(channelId: string): string {
+    return path.join(this.stateDirectory, 'mcp', channelId, 'mcp-config.json');
+  }
+
+  // Secret the channel's MCP servers sign requests with. After a bot restart it is read back
+  // from the MCP config so approval servers that are still running can be answered.
+  getChannelSecret(channelId: string): string | undefined {
+    const cached = this.channelSecrets.get(channelId);
+    if (cached) return cached;
+
+    const mcpConfigPath = this.getMcpConfigFilePath(channelId);
+    try {
+      const mcpConfig = JSON.parse(fs.readFileSync(mcpConfigPath, 'utf-8'));
+      const secret = mcpConfig.mcpServers?.['discord-approval']?.env?.ORCHESTRATOR_SECRET;
+      if (typeof secret === 'string' && secret) {
+        registerSecret(secret);
+        this.channelSecrets.set(channelId, secret);
+        return secret;
+      }
+    } catch {
+      // No config for this channel
+    }
+    return undefined;
+  }
+
+  // Default approval timeout (APPROVAL_TIMEOUT_MS, 5 minutes if unset)
+  getDefaultApprovalTimeout(): number {
+    const timeoutMs = parseInt(process.env.APPROVAL_TIMEOUT_MS || '', 10);
+    return timeoutMs > 0 ? timeoutMs : 300000;
+  }
+
+  // Change the approval timeout in the channel's MCP config; each turn starts a fresh
+  // approval server, so the new value applies from the next turn on
+  setChannelApprovalTimeout(channelId: string, timeoutMs: number | undefined): boolean {
+    const mcpConfigPath = this.mcpConfigs.get(channelId);
+    if (!mcpConfigPath) return false;
+
+    try {
+      const mcpConfig = JSON.parse(fs.readFileSync(mcpConfigPath, 'utf-8'));
+      mcpConfig.mcpServers['discord-approval'].env.APPROVAL_TIMEOUT_MS = (timeoutMs || this.getDefaultApprovalTimeout()).toString();
+      fs.writeFileSync(mcpConfigPath, JSON.stringify(mcpConfig, null, 2));
+      return true;
+    } catch (error) {
+      console.error(`[Terminal ${channelId}] Error updating approval timeout:`, error);
+      return false;
+    }
+  }
+
+  // Parse one line of stream-json output and forward progress to the bot
+  private handleStreamLine(channelId: string, line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) return;
+
+    let event: any;
+    try {
+      event = JSON.parse(trimmed);
+    } catch {
+      return; // Not a stream event (e.g. shell echo that happens to start with a brace)
+    }
+
+    const progress: TurnProgressEvent[] = [];
+
+    switch (event.type) {
+      case 'system':
+        if (event.subtype === 'init') {
+          progress.push({ kind: 'init' });
+        }
+        break;
+
+      case 'assistant':
+        for (const block of event.message?.content || []) {
+          if (block.type === 'text' && block.text?.trim()) {
+            progress.push({ kind: 'text', text: block.text });
+          } else if (block.type === 'tool_use') {
+            this.toolUseNames.set(block.id, block.name);
+            progress.push({ kind: 'tool_use', toolName: block.name, text: summarizeToolInput(block.input) });
+          }
+        }
+        break;
+
+      case 'user':
+        for (const block of event.message?.content || []) {
+          if (block.type === 'tool_result') {
+            const toolName = this.toolUseNames.get(block.tool_use_id);
+            this.toolUseNames.delete(block.tool_use_id);
+            progress.push({ kind: 'tool_result', toolName, isError: !!block.is_error });
+          }
+        }
+        break;
+
+      case 'result':
+        this.latestResults.set(channelId, event);
+        if (event.usage) {
+          this.latestUsageStats.set(channelId, event.usage);
+          console.log(`[Usage] Captured usage stats for channel ${channelId}`);
+        }
+        if (event.result) {
+          this.latestResultText.set(channelId, event.result);
+        }
+        break;
+    }
+
+    if (this.onStreamEventCallback) {
+      for (const item of progress) {
+        this.onStreamEventCallback(channelId, item).catch(err => {
+          console.error('[StreamEvent] Error in callback:', err);
+        });
+      }
+    }
+  }
+
   // Detect interactive prompts in terminal output
   private detectPrompts(channelId: string, output: string, terminalId: string): void {
     // Skip if we already have a pending prompt for this channel
@@ -626,11 +981,11 @@ export class TerminalManager {
     // Send the appropriate keystroke
     if (pending.options.length === 2 && optionIndex < 2) {
       const key = optionIndex === 0 ? 'y' : 'n';
-      terminal.pty.write(key + '\r');
+      terminal.runner.write(key + '\r');
       console.log(`[Prompt] Sent '${key}' for binary prompt`);
     } else {
       const num = (optionIndex + 1).toString();
-      terminal.pty.write(num + '\r');
+      terminal.runner.write(num + '\r');
       console.log(`[Prompt] Sent '${num}' for menu prompt`);
     }
 
@@ -656,113 +1011,47 @@ export class TerminalManager {
       throw new Error(`MCP config not found for channel ${channelId}`);
     }
 
-    // Escape the input for shell
-    const escapedInput = input
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\$/g, '\\$')
-      .replace(/`/g, '\\`')
-      .replace(/\n/g, ' ')
-      .replace(/\r/g, '');
-
     const model = process.env.CLAUDE_MODEL || 'claude-sonnet-4-5-20250929';
     const existingSessionId = this.sessionIds.get(channelId);
 
-    // Build command with --output-format json
-    let claudeCmd: string;
+    const args = ['-p', input, '--model', model, '--output-format', 'json'];
     if (existingSessionId) {
-      claudeCmd = `claude -p "${escapedInput}" --model ${model} --output-format json --resume "${existingSessionId}" --mcp-config "${mcpConfigPath}" ; echo "___CLAUDE_DONE___"`;
-    } else {
-      claudeCmd = `claude -p "${escapedInput}" --model ${model} --output-format json --mcp-config "${mcpConfigPath}" ; echo "___CLAUDE_DONE___"`;
+      args.push('--resume', existingSessionId);
     }
-
-    console.log(`[/context] Sending: claude -p "..." --model ${model} --output-format json${existingSessionId ? ` --resume "${existingSessionId.substring(0, 8)}..."` : ''}`);
-
-    // Mark channel as busy
-    this.busyChannels.add(channelId);
+    args.push('--mcp-config', mcpConfigPath);
 
     return new Promise((resolve, reject) => {
-      let output = '';
-      let resolved = false;
-      let sawDoneMarker = false;
-
       const timeout = setTimeout(() => {
-        if (!resolved) {
-          resolved = true;
-          this.busyChannels.delete(channelId);
+        if (this.resultWaiters.get(channelId) === onResult) {
+          this.resultWaiters.delete(channelId);
           reject(new Error('Timeout waiting for response'));
         }
       }, 60000); // 1 minute timeout
 
-      const tryParseResult = () => {
-        // Find the result JSON object - it starts with {"type":"result" and ends with }
-        const startIdx = output.indexOf('{"type":"result"');
-        if (startIdx === -1) return null;
-
-        // Find the matching closing brace by counting braces
-        let braceCount = 0;
-        let endIdx = -1;
-        for (let i = startIdx; i < output.length; i++) {
-          if (output[i] === '{') braceCount++;
-          if (output[i] === '}') braceCount--;
-          if (braceCount === 0) {
-            endIdx = i + 1;
-            break;
-          }
-        }
-
-        if (endIdx === -1) return null;
-
-        try {
-          const jsonStr = output.substring(startIdx, endIdx);
-          const result = JSON.parse(jsonStr);
-          return result;
-        } catch (e) {
-          // Not valid JSON yet
-          return null;
+      const onResult = (result: any) => {
+        clearTimeout(timeout);
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error('Claude exited without a result'));
         }
       };
+      this.resultWaiters.set(channelId, onResult);
 
-      const dataHandler = (data: string) => {
-        output += data;
-
-        // Check for completion marker
-        if (output.includes('___CLAUDE_DONE___') && !sawDoneMarker) {
-          sawDoneMarker = true;
-          // Wait a bit for all output to arrive, then parse
-          setTimeout(() => {
-            if (!resolved) {
-              const result = tryParseResult();
-              if (result) {
-                resolved = true;
-                clearTimeout(timeout);
-                this.busyChannels.delete(channelId);
-                resolve(result);
-              } else {
-                // Keep waiting for more data, will be handled by subsequent data events
-              }
-            }
-          }, 500);
-        }
-
-        // Also try to parse on each data event after done marker (in case JSON comes in chunks)
-        if (sawDoneMarker && !resolved) {
-          const result = tryParseResult();
-          if (result) {
-            resolved = true;
-            clearTimeout(timeout);
-            this.busyChannels.delete(channelId);
-            resolve(result);
-          }
-        }
-      };
-
-      // Listen for data
-      terminal.pty.onData(dataHandler);
-
-      // Send the command
-      terminal.pty.write(claudeCmd + '\r');
-      terminal.lastActivity = new Date();
+      if (!this.runTurn(terminal, args, !!existingSessionId, { model }, undefined, `--model ${model} --output-format json`)) {
+        clearTimeout(timeout);
+        this.resultWaiters.delete(channelId);
+        reject(new Error('Failed to start claude'));
+      }
     });
   }
 }
+
+// Short one-line description of a tool call's input for progress display
+function summarizeToolInput(input: any): string | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const value = input.command ?? input.file_path ?? input.path ?? input.pattern ?? input.url ?? input.description;
+  if (typeof value !== 'string') return undefined;
+  const oneLine = value.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 80 ? oneLine.substring(0, 77) + '...' : oneLine;
+}
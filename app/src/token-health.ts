@@ -0,0 +1,104 @@
+import { execFile } from 'child_process';
+import { TokenCooldown, TurnOutcome } from './types.js';
+import { claudeChildEnv } from './child-env.js';
+
+// Cooldown when a rate limit doesn't say when it resets
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60 * 60 * 1000;
+// Rejected tokens don't recover on their own; retry them after a day (or once replaced)
+const AUTH_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+// Error lines the CLI itself prints, matched from the start of the line (an optional "Error: " prefix
+// is allowed) so prompts or answers that merely talk about rate limits or HTTP codes never match
+const RATE_LIMIT_PATTERN = /^(?:Error:\s*)?(?:Claude AI usage limit reached|(?:5-hour|weekly|Opus weekly|session) limit reached|You've hit your (?:usage )?limit|API Error: 429\b|API Error: .*"type":"rate_limit_error")/i;
+const AUTH_PATTERN = /^(?:Error:\s*)?(?:Invalid API key|OAuth token (?:has expired|has been revoked|is invalid)|Invalid bearer token|Failed to authenticate|API Error: 401\b|API Error: .*"type":"authentication_error")/i;
+
+// Check a failed turn for a rate-limit or auth error caused by its OAuth token.
+// Only the CLI's structured error result and real process stderr are looked at, never the PTY's
+// terminal text (it contains the echoed prompt) or Claude's answer to a successful turn.
+export function detectTokenFailure(outcome: TurnOutcome, now: Date = new Date()): TokenCooldown | undefined {
+  const result = outcome.result;
+  if (outcome.interrupted || (!result?.is_error && outcome.exitCode === 0)) {
+    return undefined;
+  }
+
+  const sources: string[] = [];
+  if (result?.is_error && typeof result.result === 'string') {
+    sources.push(result.result);
+  }
+  if (!result && !outcome.stderrFromTerminal) {
+    sources.push(outcome.stderr);
+  }
+  const detail = sources.join('\n').split('\n').map(line => line.trim())
+    .find(line => RATE_LIMIT_PATTERN.test(line) || AUTH_PATTERN.test(line));
+  if (!detail) {
+    return undefined;
+  }
+
+  if (AUTH_PATTERN.test(detail)) {
+    return { reason: 'auth', until: new Date(now.getTime() + AUTH_COOLDOWN_MS), detail };
+  }
+  const resetsAt = parseResetTime(detail, now);
+  return {
+    reason: 'rate_limit',
+    until: resetsAt && resetsAt.getTime() > now.getTime() ? resetsAt : new Date(now.getTime() + DEFAULT_RATE_LIMIT_COOLDOWN_MS),
+    detail,
+  };
+}
+
+export interface TokenCheckResult {
+  ok: boolean;
+  detail: string;
+  cooldown?: TokenCooldown;    // Set when the token is rate limited or rejected
+}
+
+// Run a one-line prompt on the token to see whether it works (`token check`)
+export function checkOAuthToken(token: string, cwd: string): Promise<TokenCheckResult> {
+  const args = ['-p', 'Reply with OK', '--model', 'haiku', '--output-format', 'json', '--max-turns', '1'];
+  return new Promise(resolve => {
+    execFile('claude', args, { cwd, env: claudeChildEnv({ CLAUDE_CODE_OAUTH_TOKEN: token }), timeout: 60000 }, (error, stdout, stderr) => {
+      let result: any;
+      try {
+        result = JSON.parse(stdout.trim().split('\n').pop() || '');
+      } catch {
+        // No JSON: the CLI failed before starting the turn
+      }
+      const exitCode = error ? (typeof error.code === 'number' ? error.code : null) : 0;
+      const outcome: TurnOutcome = { exitCode, stderr, interrupted: false, result };
+      if (exitCode === 0 && result && !result.is_error) {
+        resolve({ ok: true, detail: `answered in ${((result.duration_ms || 0) / 1000).toFixed(1)}s` });
+        return;
+      }
+      const cooldown = detectTokenFailure(outcome);
+      const detail = cooldown?.detail || result?.result || stderr.trim().split('\n').pop() || error?.message || 'unknown error';
+      resolve({ ok: false, detail, cooldown });
+    });
+  });
+}
+
+// Reset time reported by the CLI: "Claude AI usage limit reached|1760000000" or "… resets 3pm" / "resets 15:30"
+function parseResetTime(text: string, now: Date): Date | undefined {
+  const epoch = text.match(/\|(\d{10})\b/);
+  if (epoch) {
+    return new Date(parseInt(epoch[1], 10) * 1000);
+  }
+
+  const clock = text.match(/resets?\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (!clock) {
+    return undefined;
+  }
+  let hours = parseInt(clock[1], 10);
+  const minutes = clock[2] ? parseInt(clock[2], 10) : 0;
+  const meridiem = clock[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+
+  // The next occurrence of that time of day (server time)
+  const resetsAt = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  if (resetsAt.getTime() <= now.getTime()) {
+    resetsAt.setDate(resetsAt.getDate() + 1);
+  }
+  return resetsAt;
+}
@@ -0,0 +1,75 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OAuthToken } from './types.js';
+
+// One token as written to disk; only the alias and who added it are in the clear
+interface EncryptedToken {
+  alias: string;
+  addedBy: string;
+  iv: string;          // base64, 12 bytes
+  tag: string;         // base64 GCM auth tag
+  ciphertext: string;  // base64
+}
+
+// OAuth tokens added from Discord, encrypted with AES-256-GCM and persisted to .minion-oauth-tokens.json
+export class TokenStore {
+  private key: Buffer;
+  private storeFilePath: string;
+
+  constructor(stateDirectory: string, encryptionKey: string) {
+    // Any passphrase works; scrypt stretches it to a 256-bit key
+    this.key = crypto.scryptSync(encryptionKey, 'claude-minion-oauth-tokens', 32);
+    this.storeFilePath = path.join(stateDirectory, '.minion-oauth-tokens.json');
+  }
+
+  // Tokens that decrypt with the current key; others are skipped with an error
+  load(): OAuthToken[] {
+    const tokens: OAuthToken[] = [];
+    try {
+      if (!fs.existsSync(this.storeFilePath)) {
+        return tokens;
+      }
+      const data = JSON.parse(fs.readFileSync(this.storeFilePath, 'utf-8')) as EncryptedToken[];
+      for (const entry of data) {
+        try {
+          tokens.push({ alias: entry.alias, token: this.decrypt(entry), addedBy: entry.addedBy });
+        } catch {
+          console.error(`[TokenStore] Could not decrypt token "${entry.alias}" (wrong TOKEN_ENCRYPTION_KEY?)`);
+        }
+      }
+      console.log(`[TokenStore] Loaded ${tokens.length} stored OAuth token(s)`);
+    } catch (error) {
+      console.error('[TokenStore] Error loading tokens:', error);
+    }
+    return tokens;
+  }
+
+  // Replace the stored set with the given tokens (those added from Discord)
+  save(tokens: OAuthToken[]): void {
+    try {
+      const data: EncryptedToken[] = tokens.map(t => ({ alias: t.alias, addedBy: t.addedBy || '', ...this.encrypt(t.token) }));
+      fs.writeFileSync(this.storeFilePath, JSON.stringify(data, null, 2), { mode: 0o600 });
+      fs.chmodSync(this.storeFilePath, 0o600);
+    } catch (error) {
+      console.error('[TokenStore] Error saving tokens:', error);
+    }
+  }
+
+  private encrypt(plaintext: string): Pick<EncryptedToken, 'iv' | 'tag' | 'ciphertext'> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
+
+  private decrypt(entry: EncryptedToken): string {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(entry.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, 'base64')), decipher.final()]).toString('utf-8');
+  }
+}
@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { redact } from './redact.js';
+
+// Output of /export
+export type TranscriptFormat = 'md' | 'html' | 'json';
+
+// Tool results longer than this are cut in Markdown and HTML (JSON keeps everything)
+const MAX_TOOL_RESULT_CHARS = 10000;
+
+// How much of a session file /attach reads to find its summary or first prompt
+const SESSION_HEAD_BYTES = 64 * 1024;
+
+// One rendered piece of a message
+type TranscriptBlock =
+  | { kind: 'text'; text: string }
+  | { kind: 'tool_use'; name: string; input: unknown }
+  | { kind: 'tool_result'; content: string; isError: boolean };
+
+interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  timestamp?: string;
+  blocks: TranscriptBlock[];
+}
+
+// A session found in the CLI's project storage (/attach)
+export interface CliSessionInfo {
+  sessionId: string;
+  modifiedAt: Date;
+  summary: string;     // The CLI's summary line, else the first prompt (redacted)
+}
+
+export interface TranscriptExport {
+  name: string;        // Attachment file name
+  content: string;     // Rendered and redacted transcript
+  messages: number;
+}
+
+function projectsDirectory(): string {
+  return path.join(process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude'), 'projects');
+}
+
+// The CLI keeps sessions in <config dir>/projects/<cwd with every non-alphanumeric replaced by '-'>/<sessionId>.jsonl
+function projectDirectory(cwd: string): string {
+  return path.join(projectsDirectory(), cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+export function findSessionFile(sessionId: string, cwd?: string): string | undefined {
+  const projectsDir = projectsDirectory();
+  const fileName = `${sessionId}.jsonl`;
+  if (cwd) {
+    const expected = path.join(projectDirectory(cwd), fileName);
+    if (fs.existsSync(expected)) return expected;
+  }
+
+  // The cwd isn't known (terminal gone) or the CLI encoded it differently: look in every project
+  try {
+    for (const dir of fs.readdirSync(projectsDir)) {
+      const candidate = path.join(projectsDir, dir, fileName);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+  } catch {
+    // No projects directory yet
+  }
+  return undefined;
+}
+
+// Whether `claude --resume <sessionId>` works from this directory
+export function cliSessionExists(sessionId: string, cwd: string): boolean {
+  return /^[0-9a-f-]{36}$/i.test(sessionId) && fs.existsSync(path.join(projectDirectory(cwd), `${sessionId}.jsonl`));
+}
+
+// Sessions the CLI has stored for a working directory, most recently used first
+export function listCliSessions(cwd: string, limit: number = 25): CliSessionInfo[] {
+  const dir = projectDirectory(cwd);
+  let files: { sessionId: string; file: string; modifiedAt: Date }[];
+  try {
+    files = fs.readdirSync(dir)
+      .filter(name => name.endsWith('.jsonl'))
+      .map(name => {
+        const file = path.join(dir, name);
+        return { sessionId: name.slice(0, -'.jsonl'.length), file, modifiedAt: fs.statSync(file).mtime };
+      });
+  } catch {
+    return [];  // Claude has never run in this directory
+  }
+  return files
+    .sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime())
+    .slice(0, limit)
+    .map(({ sessionId, file, modifiedAt }) => ({ sessionId, modifiedAt, summary: redact(sessionSummary(file)) }));
+}
+
+// The summary line if the CLI wrote one, else the first prompt, from the start of the file
+function sessionSummary(file: string): string {
+  let head = '';
+  try {
+    const fd = fs.openSync(file, 'r');
+    try {
+      const buffer = Buffer.alloc(SESSION_HEAD_BYTES);
+      head = buffer.toString('utf-8', 0, fs.readSync(fd, buffer, 0, SESSION_HEAD_BYTES, 0));
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return '(unreadable)';
+  }
+
+  let firstPrompt: string | undefined;
+  for (const line of head.split('\n')) {
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;  // Blank, or cut off at the end of the chunk
+    }
+    if (entry.type === 'summary' && typeof entry.summary === 'string') {
+      return entry.summary;
+    }
+    if (!firstPrompt && entry.type === 'user' && !entry.isMeta && entry.message) {
+      const content = entry.message.content;
+      const text = typeof content === 'string'
+        ? content
+        : Array.isArray(content) ? content.find((b: any) => b.type === 'text')?.text : undefined;
+      if (text?.trim()) firstPrompt = text.replace(/\s+/g, ' ').trim();
+    }
+  }
+  return firstPrompt || '(no prompt)';
+}
+
+// Render a session file for upload; undefined if it can't be found
+export function exportTranscript(sessionId: string, cwd: string | undefined, format: TranscriptFormat, title: string): TranscriptExport | undefined {
+  const file = findSessionFile(sessionId, cwd);
+  if (!file) return undefined;
+
+  const lines: any[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      lines.push(JSON.parse(line));
+    } catch {
+      // Skip a line the CLI is still writing
+    }
+  }
+  const messages = parseMessages(lines);
+  const heading = `${title} — Claude session ${sessionId}`;
+
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(lines, null, 2);
+  } else if (format === 'html') {
+    content = renderHtml(heading, messages);
+  } else {
+    content = renderMarkdown(heading, messages);
+  }
+  return { name: `transcript-${sessionId.slice(0, 8)}.${format}`, content: redact(content), messages: messages.length };
+}
+
+// Conversation messages in order; CLI bookkeeping lines and injected meta messages are dropped
+function parseMessages(lines: any[]): TranscriptMessage[] {
+  const messages: TranscriptMessage[] = [];
+  for (const line of lines) {
+    if ((line.type !== 'user' && line.type !== 'assistant') || line.isMeta || !line.message) continue;
+
+    const content = line.message.content;
+    const blocks: TranscriptBlock[] = [];
+    if (typeof content === 'string') {
+      blocks.push({ kind: 'text', text: content });
+    } else if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block.type === 'text' && block.text?.trim()) {
+          blocks.push({ kind: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          blocks.push({ kind: 'tool_use', name: block.name, input: block.input });
+        } else if (block.type === 'tool_result') {
+          blocks.push({ kind: 'tool_result', content: toolResultText(block.content), isError: !!block.is_error });
+        }
+      }
+    }
+    if (blocks.length === 0) continue;
+
+    // The CLI writes one line per content block; join consecutive lines from the same speaker
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === line.type) {
+      previous.blocks.push(...blocks);
+    } else {
+      messages.push({ role: line.type, timestamp: line.timestamp, blocks });
+    }
+  }
+  return messages;
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => part.type === 'text' ? part.text : `[${part.type}]`).join('\n');
+  }
+  return content === undefined ? '' : JSON.stringify(content, null, 2);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_RESULT_CHARS
+    ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n… (${text.length - MAX_TOOL_RESULT_CHARS} more characters)`
+    : text;
+}
+
+// Who is speaking, from the transcript's point of view: tool results come back as "user" lines
+function speaker(message: TranscriptMessage): string {
+  if (message.role === 'assistant') return '🤖 Claude';
+  return message.blocks.every(b => b.kind === 'tool_result') ? '📤 Tool results' : '👤 User';
+}
+
+function renderMarkdown(heading: string, messages: TranscriptMessage[]): string {
+  // A fence longer than any backtick run in the text, so code inside can't close it
+  const fence = (text: string, lang: string = ''): string => {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const ticks = '`'.repeat(longest + 1);
+    return `${ticks}${lang}\n${text}\n${ticks}`;
+  };
+
+  const parts = [`# ${heading}`, `Exported ${new Date().toISOString()}`];
+  for (const message of messages) {
+    parts.push(`## ${speaker(message)}${message.timestamp ? ` — ${message.timestamp}` : ''}`);
+    for (const block of message.blocks) {
+      if (block.kind === 'text') {
+        parts.push(block.text);
+      } else if (block.kind === 'tool_use') {
+        parts.push(`**🔧 ${block.name}**\n${fence(JSON.stringify(block.input, null, 2), 'json')}`);
+      } else {
+        parts.push(`**${block.isError ? '❌ Error' : 'Result'}**\n${fence(truncate(block.content))}`);
+      }
+    }
+  }
+  return parts.join('\n\n') + '\n';
+}
+
+function renderHtml(heading: string, messages: TranscriptMessage[]): string {
+  const escape = (text: string): string => text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+  const body = messages.map(message => {
+    const blocks = message.blocks.map(block => {
+      if (block.kind === 'text') {
+        return `<div class="text">${escape(block.text)}</div>`;
+      }
+      if (block.kind === 'tool_use') {
+        return `<details class="tool"><summary>🔧 ${escape(block.name)}</summary><pre>${escape(JSON.stringify(block.input, null, 2))}</pre></details>`;
+      }
+      return `<details class="result${block.isError ? ' error' : ''}"><summary>${block.isError ? '❌ Error' : 'Result'}</summary>` +
+        `<pre>${escape(truncate(block.content))}</pre></details>`;
+    }).join('\n');
+    const time = message.timestamp ? ` <time>${escape(message.timestamp)}</time>` : '';
+    return `<section class="${message.role}"><h2>${speaker(message)}${time}</h2>\n${blocks}\n</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escape(heading)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+section { border-left: 4px solid #d0d7de; padding: 0.25rem 1rem; margin: 1rem 0; }
+section.user { border-color: #5865f2; }
+section.assistant { border-color: #d97757; }
+h2 { font-size: 1rem; margin: 0.5rem 0; }
+time { color: #656d76; font-weight: normal; font-size: 0.85rem; }
+.text { white-space: pre-wrap; margin: 0.5rem 0; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; font-family: ui-monospace, monospace; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+.error pre { background: #ffebe9; }
+</style>
+</head>
+<body>
+<h1>${escape(heading)}</h1>
+<p>Exported ${new Date().toISOString()}</p>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,240 @@
+import type { IPty } from 'node-pty';
+import { spawn, ChildProcess } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TurnRunner, TurnRunnerKind, TurnRunnerEvents, TurnRequest } from './types.js';
+
+// Printed after each PTY command together with its exit code
+const DONE_SENTINEL = '___CLAUDE_DONE___';
+const DONE_PATTERN = new RegExp(`^${DONE_SENTINEL} (\\d+)$`);
+
+// Cap on captured stderr so a chatty failure can't grow memory unbounded
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+export interface TurnRunnerOptions {
+  cwd: string;
+  env: Record<string, string | undefined>;
+}
+
+// node-pty is only loaded for the PTY runner, so the spawn runner works where its native build is unavailable
+export async function createTurnRunner(kind: TurnRunnerKind, options: TurnRunnerOptions, events: TurnRunnerEvents): Promise<TurnRunner> {
+  if (kind === 'spawn') {
+    return new SpawnTurnRunner(options, events);
+  }
+  const pty = await import('node-pty');
+  const shell = process.platform === 'win32' ? 'powershell.exe' : 'bash';
+  const ptyProcess = pty.spawn(shell, [], {
+    name: 'xterm-256color',
+    cols: 120,
+    rows: 40,
+    cwd: options.cwd,
+    env: options.env,
+  });
+  return new PtyTurnRunner(ptyProcess, events);
+}
+
+// Split a stream of chunks into complete lines
+class LineBuffer {
+  private partial = '';
+
+  push(chunk: string, onLine: (line: string) => void): void {
+    const lines = (this.partial + chunk).split('\n');
+    this.partial = lines.pop() || '';
+    for (const line of lines) {
+      onLine(line.replace(/\r$/, ''));
+    }
+  }
+
+  flush(onLine: (line: string) => void): void {
+    if (this.partial) {
+      onLine(this.partial.replace(/\r$/, ''));
+    }
+    this.partial = '';
+  }
+}
+
+// Quote a single argument for bash
+function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+// Types each turn as a shell command into a long-lived bash PTY.
+// Output is interleaved with the shell echo, so completion is detected with a sentinel line.
+class PtyTurnRunner implements TurnRunner {
+  readonly kind = 'pty' as const;
+  private lines = new LineBuffer();
+  private running = false;
+  private recentOutput: string[] = [];  // Non-JSON output of the running turn (stands in for stderr)
+
+  constructor(private ptyProcess: IPty, private events: TurnRunnerEvents) {
+    this.ptyProcess.onData((data: string) => {
+      this.events.onData(data);
+      this.lines.push(data, (line) => this.handleLine(line));
+    });
+
+    this.ptyProcess.onExit(({ exitCode }) => {
+      this.events.onExit(exitCode);
+    });
+  }
+
+  private handleLine(rawLine: string): void {
+    // Drop ANSI escapes so the sentinel and JSON lines can be matched
+    const line = rawLine.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+    const doneMatch = line.trim().match(DONE_PATTERN);
+    if (doneMatch) {
+      if (!this.running) return;
+      this.running = false;
+      const exitCode = parseInt(doneMatch[1], 10);
+      this.events.onTurnExit({
+        exitCode,
+        stderr: exitCode === 0 ? '' : this.recentOutput.join('\n'),
+        stderrFromTerminal: true,
+      });
+      this.recentOutput = [];
+      return;
+    }
+
+    if (!this.running) return;
+    this.events.onLine(line);
+
+    // Keep the tail of plain output so failures have something to show
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('{') && !trimmed.includes(DONE_SENTINEL)) {
+      this.recentOutput.push(trimmed);
+      if (this.recentOutput.length > 20) this.recentOutput.shift();
+    }
+  }
+
+  run(request: TurnRequest): void {
+    // The PTY submits on newline, so multi-line prompts are flattened
+    const args = request.args.map(arg => shellQuote(arg.replace(/\r/g, '').replace(/\n/g, ' '))).join(' ');
+    let command = `${request.command} ${args}`;
+    // Bash echoes the typed command, so secrets go through a private env file that the
+    // subshell sources and deletes, instead of KEY=value on the command line
+    const envFile = this.writeEnvFile(request.env);
+    if (envFile) {
+      command = `( set -a; . ${shellQuote(envFile)}; rm -f ${shellQuote(envFile)}; set +a; exec ${command} )`;
+    }
+    command = `${command} ; echo "${DONE_SENTINEL} $?"`;
+
+    this.running = true;
+    this.recentOutput = [];
+    this.ptyProcess.write(command + '\r');
+  }
+
+  private writeEnvFile(env: Record<string, string>): string | null {
+    const entries = Object.entries(env);
+    if (entries.length === 0) return null;
+    const envFile = path.join(os.tmpdir(), `minion-env-${crypto.randomBytes(8).toString('hex')}`);
+    const content = entries.map(([key, value]) => `${key}=${shellQuote(value)}`).join('\n') + '\n';
+    fs.writeFileSync(envFile, content, { mode: 0o600, flag: 'wx' });
+    return envFile;
+  }
+
+  interrupt(): boolean {
+    this.ptyProcess.write('\x03');
+    return true;
+  }
+
+  write(data: string): boolean {
+    this.ptyProcess.write(data);
+    return true;
+  }
+
+  resize(cols: number, rows: number): boolean {
+    this.ptyProcess.resize(cols, rows);
+    return true;
+  }
+
+  kill(): void {
+    this.ptyProcess.kill();
+  }
+}
+
+// Runs each turn as its own child process with an argv array (no shell involved).
+// stdout is parsed line by line; stderr and the exit code are reported separately.
+class SpawnTurnRunner implements TurnRunner {
+  readonly kind = 'spawn' as const;
+  private child: ChildProcess | null = null;
+  private killed = false;
+
+  constructor(private options: TurnRunnerOptions, private events: TurnRunnerEvents) {}
+
+  run(request: TurnRequest): void {
+    if (this.killed) {
+      throw new Error('Turn runner has been killed');
+    }
+
+    const child = spawn(request.command, request.args, {
+      cwd: this.options.cwd,
+      env: { ...this.options.env, ...request.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    this.child = child;
+
+    const lines = new LineBuffer();
+    let stderr = '';
+    let finished = false;
+
+    // Ignore events from a child that has been superseded by a newer turn
+    const isCurrent = () => this.child === child;
+
+    const finish = (exitCode: number | null, extraStderr = '') => {
+      if (finished) return;
+      finished = true;
+      if (!isCurrent()) return;
+      lines.flush(line => this.events.onLine(line));
+      this.child = null;
+      this.events.onTurnExit({ exitCode, stderr: (stderr + extraStderr).trim() });
+    };
+
+    child.stdout!.setEncoding('utf-8');
+    child.stdout!.on('data', (data: string) => {
+      if (!isCurrent()) return;
+      this.events.onData(data);
+      lines.push(data, line => this.events.onLine(line));
+    });
+
+    child.stderr!.setEncoding('utf-8');
+    child.stderr!.on('data', (data: string) => {
+      if (!isCurrent()) return;
+      this.events.onData(data);
+      if (stderr.length < MAX_STDERR_LENGTH) {
+        stderr += data.substring(0, MAX_STDERR_LENGTH - stderr.length);
+      }
+    });
+
+    child.on('error', (error) => {
+      // e.g. ENOENT when claude is not on PATH; 'close' may not follow
+      finish(null, `\n${error.message}`);
+    });
+
+    child.on('close', (code) => {
+      finish(code);
+    });
+  }
+
+  interrupt(): boolean {
+    if (!this.child) return false;
+    return this.child.kill('SIGINT');
+  }
+
+  write(): boolean {
+    return false; // stdin is not attached; claude -p never prompts interactively
+  }
+
+  resize(): boolean {
+    return false;
+  }
+
+  kill(): void {
+    this.killed = true;
+    if (this.child) {
+      this.child.kill('SIGTERM');
+      this.child = null;
+    }
+    this.events.onExit(0);
+  }
+}
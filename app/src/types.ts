@@ -4,22 +4,37 @@ export interface Session {
   dmChannelId: string;
   createdAt: Date;
   workingDirectory: string;
+  invitedBy?: string;   // Admin who minted this token with the `invite` DM command
+  expiresAt?: Date;     // Unlinked tokens can't be redeemed after this
+  linkedAt?: Date;      // When a user redeemed the token (each token links once)
 }
 
+// Outcome of DMing a session token to the bot
+export type TokenRedeemResult = 'linked' | 'invalid' | 'expired' | 'used' | 'locked';
+
 // OAuth token with alias for multi-token support
 export interface OAuthToken {
   alias: string;           // User-friendly name (e.g., "work", "personal")
   token: string;           // The actual OAuth token
   isDefault?: boolean;     // Whether this is the default token
+  addedBy?: string;        // Discord user who added it by DM (stored encrypted); unset for .env tokens
 }
 
 // Per-user settings stored persistently
 export interface UserSettings {
   userId: string;
-  selectedTokenAlias: string;  // Which token alias the user has selected
+  selectedTokenAlias?: string; // Which token alias the user has selected
+  fallbackAliases?: string[];  // Tried in order while the selected token is cooling down
   updatedAt: Date;
 }
 
+// Why an OAuth token is skipped, and until when
+export interface TokenCooldown {
+  reason: 'rate_limit' | 'auth';
+  until: Date;
+  detail: string;              // Error line reported by the CLI
+}
+
 export interface ChannelSession {
   channelId: string;
   sessionToken: string;
@@ -27,16 +42,179 @@ export interface ChannelSession {
   terminalId: string;
   mcpPort: number;
   createdAt: Date;
+  ownerId: string;            // User whose message started Claude in the channel
+  collaborators: string[];    // Users added with /share; their messages reach the same Claude session
+  workingDirectory?: string;  // Per-channel working directory (set with /cwd), defaults to WORKING_DIRECTORY
+  worktree?: WorktreeInfo;    // Dedicated git worktree when WORKTREE_MODE is on
+  approvalTimeoutMs?: number; // Per-channel approval timeout (set with /permissions timeout), defaults to APPROVAL_TIMEOUT_MS
+  coalesceWindowMs?: number;  // Merge rapid messages from one user into one prompt (set with /coalesce); off when unset
+}
+
+// Who may answer approvals and prompts and run /reset or /interrupt in a channel.
+// The channel owner (the user whose session started it) is always allowed.
+export interface ApproverPolicy {
+  mode: 'owner' | 'users' | 'role';
+  userIds?: string[];   // For 'users'
+  roleId?: string;      // For 'role'
+}
+
+// Prompt waiting for Claude to finish the current turn (/queue)
+export interface QueuedPromptInfo {
+  id: number;
+  input: string;
+  author?: string;    // Discord user ID; undefined for internal prompts
+  enqueuedAt: Date;
+}
+
+// A Claude conversation a channel has had (/sessions, /resume)
+export interface ClaudeSessionRecord {
+  sessionId: string;
+  cwd?: string;          // Directory claude ran in; the CLI only resumes sessions from there
+  startedAt: string;     // ISO time of the first turn
+  lastActiveAt: string;  // ISO time the last turn finished
+  lastPrompt?: string;   // Redacted preview of the last prompt
+  turns: number;
+}
+
+// Recurring prompt run in a channel (/schedule)
+export interface ChannelSchedule {
+  id: string;
+  channelId: string;
+  cron: string;              // Cron expression, evaluated in SCHEDULE_TIMEZONE (default: server time)
+  prompt: string;
+  whenBusy: 'skip' | 'queue'; // What to do if Claude is still working when the schedule fires
+  createdBy: string;
+  createdAt: Date;
+  lastRunAt?: Date;
+}
+
+// Spending cap for a user, channel or OAuth token alias (/budget)
+export interface Budget {
+  id: string;
+  scope: 'user' | 'channel' | 'alias';
+  targetId: string;              // User ID, channel ID or token alias
+  period: 'daily' | 'monthly';   // Resets at local midnight / on the 1st
+  metric: 'cost' | 'output_tokens';
+  limit: number;                 // USD for 'cost', tokens for 'output_tokens'
+  warnPercent: number;           // Soft threshold, percent of the limit
+  warnedFor?: string;            // Start of the period the soft warning was already sent for
+  createdBy: string;
+}
+
+// Who gets nudged when an approval request is still open halfway through its timeout
+export interface ApprovalEscalation {
+  mode: 'owner' | 'role';   // DM the channel owner, or mention a role in the channel
+  roleId?: string;          // Required for 'role'
+}
+
+// Git worktree created for a channel
+export interface WorktreeInfo {
+  repoRoot: string;     // Main checkout the worktree belongs to
+  path: string;         // Worktree directory
+  branch: string;       // Channel branch (minion/<channel-name>)
+  baseBranch: string;   // Branch the main checkout was on when the worktree was created
+  createdAt: Date;
 }
 
+// What happens to a channel's worktree when the channel is deleted or reset
+// 'keep' never removes, 'remove-if-clean' removes only without uncommitted or unmerged work, 'remove' always removes
+export type WorktreeCleanupPolicy = 'keep' | 'remove-if-clean' | 'remove';
+
 export interface TerminalInstance {
   id: string;
   channelId: string;
-  pty: any; // node-pty IPty
+  runner: TurnRunner;
   mcpPort: number;
+  cwd: string;                     // Directory claude runs in (locates its session files)
   lastActivity: Date;
 }
 
+// Backend that executes claude turns for a terminal
+// 'pty' types commands into a bash PTY, 'spawn' runs claude directly with child_process
+export type TurnRunnerKind = 'pty' | 'spawn';
+
+export interface TurnRequest {
+  command: string;                 // Executable to run (e.g. "claude")
+  args: string[];                  // Arguments, passed through without shell interpretation
+  env: Record<string, string>;     // Extra environment variables for this turn only
+}
+
+// How a turn ended
+export interface TurnResult {
+  exitCode: number | null;         // null if the process was killed by a signal
+  stderr: string;                  // Captured stderr (PTY runner: trailing non-JSON output)
+  stderrFromTerminal?: boolean;    // PTY runner: stderr is terminal text, including the echoed command line
+}
+
+// Outcome reported to the bot when a turn completes
+export interface TurnOutcome extends TurnResult {
+  interrupted: boolean;            // The turn was stopped with /interrupt
+  model?: string;                  // Model the turn ran with
+  author?: string;                 // Discord user ID the prompt came from
+  tokenAlias?: string;             // Alias of the OAuth token used (undefined for the inherited token)
+  input?: string;                  // Prompt of the turn, for retrying it on another token
+  result?: any;                    // Final "result" JSON (usage, total_cost_usd, duration_ms, num_turns), if any
+}
+
+// One completed turn in the usage ledger (.minion-usage.jsonl)
+export interface UsageEntry {
+  timestamp: string;               // ISO time the turn finished
+  channelId: string;
+  userId?: string;
+  tokenAlias?: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  isError: boolean;
+}
+
+// Actions recorded in the audit log (.minion-audit.jsonl)
+export type AuditAction = 'prompt' | 'approval' | 'reset' | 'resume' | 'attach' | 'detach' | 'interrupt' | 'model' | 'token_switch';
+
+// One audit log entry; fields beyond the first four depend on the action
+export interface AuditEntry {
+  timestamp: string;               // ISO time of the action
+  action: AuditAction;
+  channelId?: string;              // Absent for DM actions (token switches)
+  userId?: string;                 // Who acted; absent for automatic decisions
+  text?: string;                   // Prompt text (redacted)
+  source?: 'message' | 'schedule'; // Where a prompt came from
+  scheduleId?: string;
+  sessionId?: string;              // Conversation switched to with /resume or /attach, or left with /detach
+  requestId?: string;              // Approval request ID shown on the Discord message
+  tool?: string;
+  input?: unknown;                 // Full tool input (redacted)
+  decision?: 'allow' | 'allow_session' | 'deny';
+  decidedBy?: 'user' | 'allowlist' | 'timeout';
+  rule?: string;                   // Rule that matched (allowlist) or was added (allow_session)
+  reason?: string;                 // Feedback sent with a denial, or why a request expired
+  model?: string;                  // Model set with /model
+  fromAlias?: string;              // Token switches: previous and new alias
+  toAlias?: string;
+  automatic?: boolean;             // Token switch made by failover, not the user
+}
+
+export interface TurnRunnerEvents {
+  onData: (data: string) => void;              // Raw output chunks (terminal mirror, prompt detection)
+  onLine: (line: string) => void;              // Complete stdout lines of the running turn
+  onTurnExit: (result: TurnResult) => void;    // The running turn finished
+  onExit: (exitCode: number) => void;          // The runner itself is gone (e.g. PTY shell exited)
+}
+
+export interface TurnRunner {
+  readonly kind: TurnRunnerKind;
+  run(request: TurnRequest): void;
+  interrupt(): boolean;
+  write(data: string): boolean;    // Raw keystrokes for interactive prompts (false if unsupported)
+  resize(cols: number, rows: number): boolean;
+  kill(): void;
+}
+
 export interface MCPMessage {
   type: 'markdown' | 'file' | 'mention';
   channelId: string;
@@ -54,3 +232,15 @@ export interface PromptInfo {
   options: string[];
   raw: string;
 }
+
+// Output format used for `claude -p` turns
+// 'json' waits for the final result blob, 'stream-json' emits events as they happen
+export type OutputMode = 'json' | 'stream-json';
+
+// Progress event parsed from a stream-json turn
+export interface TurnProgressEvent {
+  kind: 'init' | 'text' | 'tool_use' | 'tool_result';
+  text?: string;       // Assistant text, or a short summary of the tool input
+  toolName?: string;   // Set for tool_use and tool_result
+  isError?: boolean;   // Set for tool_result when the tool failed
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TurnOutcome, UsageEntry } from './types.js';
+
+// Report window for /usage
+export type UsagePeriod = 'today' | 'week' | 'all';
+
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;       // Includes cache creation and cache reads
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+const CSV_COLUMNS: (keyof UsageEntry)[] = [
+  'timestamp', 'channelId', 'userId', 'tokenAlias', 'model',
+  'inputTokens', 'outputTokens', 'cacheCreationTokens', 'cacheReadTokens',
+  'costUsd', 'durationMs', 'numTurns', 'isError',
+];
+
+// Append-only record of every completed turn, persisted to .minion-usage.jsonl
+export class UsageLedger {
+  private entries: UsageEntry[] = [];
+  private ledgerFilePath: string;
+
+  constructor(stateDirectory: string) {
+    this.ledgerFilePath = path.join(stateDirectory, '.minion-usage.jsonl');
+    this.loadEntries();
+  }
+
+  private loadEntries(): void {
+    try {
+      if (fs.existsSync(this.ledgerFilePath)) {
+        const lines = fs.readFileSync(this.ledgerFilePath, 'utf-8').split('\n');
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          try {
+            this.entries.push(JSON.parse(line));
+          } catch {
+            // Skip a line cut short by a crash
+          }
+        }
+        console.log(`[Usage] Loaded ${this.entries.length} ledger entries`);
+      }
+    } catch (error) {
+      console.error('[Usage] Error loading ledger:', error);
+    }
+  }
+
+  record(entry: UsageEntry): void {
+    this.entries.push(entry);
+    try {
+      fs.appendFileSync(this.ledgerFilePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    } catch (error) {
+      console.error('[Usage] Error writing ledger:', error);
+    }
+  }
+
+  // Entries recorded at or after `since` (all entries if omitted), oldest first
+  getEntries(since?: Date, filter?: (entry: UsageEntry) => boolean): UsageEntry[] {
+    const sinceIso = since?.toISOString();
+    return this.entries.filter(e => (!sinceIso || e.timestamp >= sinceIso) && (!filter || filter(e)));
+  }
+}
+
+// Ledger entry for a finished turn, or undefined if Claude reported no result
+export function usageEntryFromOutcome(channelId: string, outcome: TurnOutcome): UsageEntry | undefined {
+  const result = outcome.result;
+  if (!result) return undefined;
+  const usage = result.usage || {};
+  return {
+    timestamp: new Date().toISOString(),
+    channelId,
+    userId: outcome.author,
+    tokenAlias: outcome.tokenAlias,
+    model: outcome.model,
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    costUsd: result.total_cost_usd || 0,
+    durationMs: result.duration_ms || 0,
+    numTurns: result.num_turns || 0,
+    isError: !!result.is_error,
+  };
+}
+
+// Start of a report window: local midnight for 'today', 7 days back for 'week'
+export function periodStart(period: UsagePeriod, now: Date = new Date()): Date | undefined {
+  if (period === 'today') {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+  if (period === 'week') {
+    return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  }
+  return undefined;
+}
+
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+  const totals: UsageTotals = { turns: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 };
+  for (const e of entries) {
+    totals.turns++;
+    totals.inputTokens += e.inputTokens + e.cacheCreationTokens + e.cacheReadTokens;
+    totals.outputTokens += e.outputTokens;
+    totals.costUsd += e.costUsd;
+    totals.durationMs += e.durationMs;
+  }
+  return totals;
+}
+
+// Totals per key (e.g. channel, user or alias), most expensive first
+export function groupUsage(entries: UsageEntry[], key: (entry: UsageEntry) => string): [string, UsageTotals][] {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const e of entries) {
+    const k = key(e);
+    const group = groups.get(k);
+    if (group) {
+      group.push(e);
+    } else {
+      groups.set(k, [e]);
+    }
+  }
+  return Array.from(groups.entries())
+    .map(([k, group]): [string, UsageTotals] => [k, sumUsage(group)])
+    .sort((a, b) => b[1].costUsd - a[1].costUsd || b[1].outputTokens - a[1].outputTokens);
+}
+
+export function usageToCsv(entries: UsageEntry[]): string {
+  const escape = (value: unknown): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = entries.map(e => CSV_COLUMNS.map(c => escape(e[c])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
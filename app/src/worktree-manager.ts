@@ -0,0 +1,156 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorktreeInfo, WorktreeCleanupPolicy } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+// Creates and manages one git worktree + branch per Discord channel,
+// so parallel Claude sessions on the same repo don't edit the same checkout.
+export class WorktreeManager {
+  private worktreeRoot: string;
+  private cleanupPolicy: WorktreeCleanupPolicy;
+
+  constructor(worktreeRoot: string, cleanupPolicy: WorktreeCleanupPolicy = 'keep') {
+    this.worktreeRoot = worktreeRoot;
+    this.cleanupPolicy = cleanupPolicy;
+  }
+
+  getCleanupPolicy(): WorktreeCleanupPolicy {
+    return this.cleanupPolicy;
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+      return stdout.trim();
+    } catch (error: any) {
+      const detail = (error.stderr || error.stdout || error.message || '').toString().trim();
+      throw new Error(`git ${args[0]} failed: ${detail}`);
+    }
+  }
+
+  // Top-level directory of the repo containing dir, or undefined if dir is not in a git repo
+  async findRepoRoot(dir: string): Promise<string | undefined> {
+    try {
+      return await this.git(dir, ['rev-parse', '--show-toplevel']);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Create (or reuse) the worktree for a channel on branch minion/<channel-name>
+  async create(repoRoot: string, channelName: string, channelId: string): Promise<WorktreeInfo> {
+    const slug = channelName.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || channelId;
+    const branch = `minion/${slug}`;
+    const worktreePath = path.join(this.worktreeRoot, `${path.basename(repoRoot)}-${slug}`);
+    const baseBranch = await this.git(repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+
+    if (await this.isRegisteredWorktree(repoRoot, worktreePath)) {
+      console.log(`[Worktree] Reusing ${worktreePath} for channel ${channelId}`);
+    } else {
+      fs.mkdirSync(this.worktreeRoot, { recursive: true });
+      const branchExists = await this.git(repoRoot, ['branch', '--list', branch]) !== '';
+      if (branchExists) {
+        await this.git(repoRoot, ['worktree', 'add', worktreePath, branch]);
+      } else {
+        await this.git(repoRoot, ['worktree', 'add', '-b', branch, worktreePath, 'HEAD']);
+      }
+      console.log(`[Worktree] Created ${worktreePath} on branch ${branch} (base ${baseBranch}) for channel ${channelId}`);
+    }
+
+    return {
+      repoRoot,
+      path: worktreePath,
+      branch,
+      baseBranch,
+      createdAt: new Date(),
+    };
+  }
+
+  private async isRegisteredWorktree(repoRoot: string, worktreePath: string): Promise<boolean> {
+    if (!fs.existsSync(worktreePath)) return false;
+    const list = await this.git(repoRoot, ['worktree', 'list', '--porcelain']);
+    const realPath = fs.realpathSync(worktreePath);
+    return list.split('\n').some(line =>
+      line.startsWith('worktree ') && fs.existsSync(line.substring(9)) && fs.realpathSync(line.substring(9)) === realPath
+    );
+  }
+
+  exists(info: WorktreeInfo): boolean {
+    return fs.existsSync(info.path);
+  }
+
+  // Uncommitted changes in the worktree (git status --porcelain lines)
+  async getUncommittedChanges(info: WorktreeInfo): Promise<string[]> {
+    const output = await this.git(info.path, ['status', '--porcelain']);
+    return output ? output.split('\n') : [];
+  }
+
+  // Commits on the channel branch that are not on the base branch
+  async getUnmergedCommits(info: WorktreeInfo): Promise<string[]> {
+    const output = await this.git(info.repoRoot, ['log', '--oneline', `${info.baseBranch}..${info.branch}`]);
+    return output ? output.split('\n') : [];
+  }
+
+  // Merge the channel branch into the base branch in the main checkout
+  async merge(info: WorktreeInfo): Promise<string> {
+    const uncommitted = await this.getUncommittedChanges(info);
+    if (uncommitted.length > 0) {
+      throw new Error(`Worktree has ${uncommitted.length} uncommitted change(s). Commit or discard them first.`);
+    }
+
+    const currentBranch = await this.git(info.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    if (currentBranch !== info.baseBranch) {
+      throw new Error(`Main checkout is on \`${currentBranch}\`, expected \`${info.baseBranch}\`.`);
+    }
+
+    const commits = await this.getUnmergedCommits(info);
+    if (commits.length === 0) {
+      return `Nothing to merge: \`${info.branch}\` has no commits ahead of \`${info.baseBranch}\`.`;
+    }
+
+    try {
+      await this.git(info.repoRoot, ['merge', '--no-ff', '--no-edit', info.branch]);
+    } catch (error) {
+      // Leave the main checkout as it was
+      await this.git(info.repoRoot, ['merge', '--abort']).catch(() => {});
+      throw error;
+    }
+    console.log(`[Worktree] Merged ${info.branch} into ${info.baseBranch}`);
+    return `Merged ${commits.length} commit(s) from \`${info.branch}\` into \`${info.baseBranch}\`.`;
+  }
+
+  // Remove the worktree directory and delete its branch
+  async remove(info: WorktreeInfo): Promise<void> {
+    if (this.exists(info)) {
+      await this.git(info.repoRoot, ['worktree', 'remove', '--force', info.path]);
+    } else {
+      await this.git(info.repoRoot, ['worktree', 'prune']);
+    }
+    await this.git(info.repoRoot, ['branch', '-D', info.branch]).catch(err => {
+      console.warn(`[Worktree] Could not delete branch ${info.branch}:`, err.message);
+    });
+    console.log(`[Worktree] Removed ${info.path} and branch ${info.branch}`);
+  }
+
+  // Apply the configured cleanup policy; returns true if the worktree was removed
+  async cleanup(info: WorktreeInfo): Promise<boolean> {
+    if (this.cleanupPolicy === 'keep') {
+      return false;
+    }
+
+    if (this.cleanupPolicy === 'remove-if-clean' && this.exists(info)) {
+      const uncommitted = await this.getUncommittedChanges(info);
+      const unmerged = await this.getUnmergedCommits(info);
+      if (uncommitted.length > 0 || unmerged.length > 0) {
+        console.log(`[Worktree] Keeping ${info.path}: ${uncommitted.length} uncommitted change(s), ${unmerged.length} unmerged commit(s)`);
+        return false;
+      }
+    }
+
+    await this.remove(info);
+    return true;
+  }
+}